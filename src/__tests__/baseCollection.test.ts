@@ -1,5 +1,11 @@
-import { ClientBaseCollectionRef } from '../baseCollection';
-import { collection, doc, addDoc, setDoc, deleteDoc, getDoc } from 'firebase/firestore'; // Import necessary functions
+import { ClientBaseCollectionRef, DocumentExistsError } from '../baseCollection';
+import { ConflictError } from '../optimisticLocking';
+import { ValidationError } from '../validation';
+import { ClientBaseQueryBuilder } from '../baseQueryBuilder';
+import { enableRequestCoalescing, disableRequestCoalescing } from '../requestCoalescing';
+import { enableReadBatching, disableReadBatching } from '../readBatching';
+import { enableReadCache, disableReadCache } from '../readCache';
+import { collection, doc, addDoc, setDoc, updateDoc, deleteDoc, getDoc, getDocFromServer, getDocs, query, where, onSnapshot, collectionGroup, runTransaction, writeBatch } from 'firebase/firestore'; // Import necessary functions
 
 // Mock the Firestore instance and related functions
 // Mock FieldValue sentinel object for comparison
@@ -11,8 +17,10 @@ jest.mock('firebase/firestore', () => ({
   collection: jest.fn(),
   doc: jest.fn(),
   getDoc: jest.fn(),
+  getDocFromServer: jest.fn(),
   setDoc: jest.fn(),
   addDoc: jest.fn(),
+  updateDoc: jest.fn(),
   deleteDoc: jest.fn(),
   query: jest.fn(),
   where: jest.fn(),
@@ -23,12 +31,16 @@ jest.mock('firebase/firestore', () => ({
   endAt: jest.fn(),
   endBefore: jest.fn(),
   getDocs: jest.fn(),
+  onSnapshot: jest.fn(),
+  collectionGroup: jest.fn(),
+  runTransaction: jest.fn(),
+  writeBatch: jest.fn(),
   serverTimestamp: jest.fn(() => MOCK_SERVER_TIMESTAMP), // Mock serverTimestamp
   // Add other necessary mocks
 }));
 
 // Import serverTimestamp after mocking
-import { serverTimestamp } from 'firebase/firestore';
+import { serverTimestamp, Timestamp } from 'firebase/firestore';
 
 // Mock types for testing
 interface TestData {
@@ -190,6 +202,54 @@ describe('ClientBaseCollectionRef', () => { // Renamed describe block
     });
   });
 
+  // --- Test schema validation ---
+  describe('validation', () => {
+    const schemaWithRules = {
+      fields: {
+        name: { type: 'string' as const, required: true, min: 2 },
+        age: { type: 'number' as const, min: 0 },
+      },
+    };
+
+    beforeEach(() => {
+      collectionRef = new ClientBaseCollectionRef<TestData, TestAddData>(
+        mockFirestore,
+        'test-collection',
+        schemaWithRules
+      );
+      (doc as jest.Mock).mockReturnValue({ id: 'doc-id' });
+    });
+
+    it('should throw a ValidationError and not call addDoc() for invalid data', async () => {
+      await expect(collectionRef.add({ name: 'A', age: -5 })).rejects.toThrow(ValidationError);
+      await expect(collectionRef.add({ name: 'A', age: -5 })).rejects.toMatchObject({
+        issues: [
+          { path: 'name', message: 'must be at least 2 in length' },
+          { path: 'age', message: 'must be at least 0' },
+        ],
+      });
+      expect(addDoc).not.toHaveBeenCalled();
+    });
+
+    it('should validate full sets but allow partial data on merge sets', async () => {
+      await expect(collectionRef.set('doc-id', { age: 3 } as TestAddData)).rejects.toThrow(ValidationError);
+      await collectionRef.set('doc-id', { age: 3 }, { merge: true });
+      expect(setDoc).toHaveBeenCalledTimes(1);
+      await expect(collectionRef.set('doc-id', { age: -1 }, { merge: true })).rejects.toThrow(ValidationError);
+    });
+
+    it('should skip validation when the schema opts out', async () => {
+      collectionRef = new ClientBaseCollectionRef<TestData, TestAddData>(
+        mockFirestore,
+        'test-collection',
+        { ...schemaWithRules, validate: false }
+      );
+      (addDoc as jest.Mock).mockResolvedValue({ id: 'new-id' });
+      await collectionRef.add({ name: 'A', age: -5 });
+      expect(addDoc).toHaveBeenCalled();
+    });
+  });
+
   // Add tests for constructor, methods like get, add, update, delete, query building etc.
 
   it('should call firestore.doc() when creating a doc ref', () => {
@@ -312,6 +372,684 @@ describe('ClientBaseCollectionRef', () => { // Renamed describe block
     expect(result).toBeUndefined();
   });
 
+  it('should return a document envelope from getDoc()', async () => {
+    const testId = 'envelope-id';
+    const mockDocRefInternal = { id: testId, path: `test-collection/${testId}` };
+    const mockSnapshot = {
+      exists: () => true,
+      data: () => ({ name: 'Wrapped' }),
+      id: testId,
+      ref: mockDocRefInternal,
+      metadata: { fromCache: true, hasPendingWrites: false },
+    };
+
+    (doc as jest.Mock).mockReturnValue(mockDocRefInternal);
+    (getDoc as jest.Mock).mockResolvedValue(mockSnapshot);
+
+    const result = await collectionRef.getDoc(testId);
+
+    expect(getDoc).toHaveBeenCalledWith(mockDocRefInternal);
+    expect(result).toEqual({
+      id: testId,
+      ref: mockDocRefInternal,
+      data: { name: 'Wrapped' },
+      exists: true,
+      fromCache: true,
+      hasPendingWrites: false,
+    });
+  });
+
+  it('should return an envelope with undefined data from getDoc() for a missing document', async () => {
+    const mockDocRefInternal = { id: 'missing', path: 'test-collection/missing' };
+    (doc as jest.Mock).mockReturnValue(mockDocRefInternal);
+    (getDoc as jest.Mock).mockResolvedValue({
+      exists: () => false,
+      data: () => undefined,
+      id: 'missing',
+      ref: mockDocRefInternal,
+      metadata: { fromCache: false, hasPendingWrites: false },
+    });
+
+    const result = await collectionRef.getDoc('missing');
+
+    expect(result.exists).toBe(false);
+    expect(result.data).toBeUndefined();
+    expect(result.id).toBe('missing');
+  });
+
+  // --- Test real-time listeners ---
+  describe('get() with request coalescing', () => {
+    afterEach(() => disableRequestCoalescing(mockFirestore));
+
+    it('should share one getDoc() call between concurrent reads of the same document', async () => {
+      enableRequestCoalescing(mockFirestore);
+      (doc as jest.Mock).mockImplementation((_ref, id) => ({ id, path: `test-collection/${id}` }));
+      (getDoc as jest.Mock).mockImplementation(async (ref) => ({ exists: () => true, data: () => ({ name: ref.id }) }));
+
+      const results = await Promise.all([collectionRef.get('a'), collectionRef.get('a'), collectionRef.get('b')]);
+
+      expect(getDoc).toHaveBeenCalledTimes(2);
+      expect(results).toEqual([{ name: 'a' }, { name: 'a' }, { name: 'b' }]);
+
+      await collectionRef.get('a');
+      expect(getDoc).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('getMany()', () => {
+    beforeEach(() => {
+      (doc as jest.Mock).mockImplementation((_ref, id) => ({ id, path: `test-collection/${id}` }));
+      (getDoc as jest.Mock).mockImplementation(async (ref) => ({
+        exists: () => ref.id !== 'missing',
+        data: () => ({ name: ref.id }),
+      }));
+    });
+
+    it('should return results in input order, with undefined for missing documents', async () => {
+      const results = await collectionRef.getMany(['b', 'missing', 'a', 'b']);
+
+      expect(results).toEqual([{ name: 'b' }, undefined, { name: 'a' }, { name: 'b' }]);
+      expect(getDoc).toHaveBeenCalledTimes(3); // Duplicates are fetched once
+    });
+
+    it('should keep at most `concurrency` reads in flight', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      (getDoc as jest.Mock).mockImplementation(async (ref) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        inFlight--;
+        return { exists: () => true, data: () => ({ name: ref.id }) };
+      });
+
+      await collectionRef.getMany(['a', 'b', 'c', 'd', 'e'], { concurrency: 2 });
+
+      expect(getDoc).toHaveBeenCalledTimes(5);
+      expect(maxInFlight).toBe(2);
+    });
+
+    it('should use chunked documentId() in queries when useQueries is set', async () => {
+      const ids = Array.from({ length: 31 }, (_, i) => `id-${i}`);
+      (getDocs as jest.Mock).mockImplementation(async () => ({
+        docs: [{ id: 'id-30', data: () => ({ name: 'last' }) }],
+      }));
+
+      const results = await collectionRef.getMany(ids, { useQueries: true });
+
+      expect(getDocs).toHaveBeenCalledTimes(2);
+      expect((where as jest.Mock).mock.calls.map(call => call[2].length)).toEqual([30, 1]);
+      expect(query).toHaveBeenCalledWith(collectionRef.ref, undefined);
+      expect(results[30]).toEqual({ name: 'last' });
+      expect(results[0]).toBeUndefined();
+      expect(getDoc).not.toHaveBeenCalled();
+    });
+
+    it('should merge get() calls from the same tick into one getMany() when batching is enabled', async () => {
+      enableReadBatching(mockFirestore);
+      const getManySpy = jest.spyOn(collectionRef, 'getMany');
+      try {
+        const results = await Promise.all([collectionRef.get('a'), collectionRef.get('missing'), collectionRef.get('a')]);
+
+        expect(results).toEqual([{ name: 'a' }, undefined, { name: 'a' }]);
+        expect(getManySpy).toHaveBeenCalledTimes(1);
+        expect(getManySpy).toHaveBeenCalledWith(['a', 'missing'], {});
+      } finally {
+        disableReadBatching(mockFirestore);
+      }
+    });
+  });
+
+  describe('get() with the read cache', () => {
+    afterEach(() => disableReadCache(mockFirestore));
+
+    it('should cache reads and invalidate them when the collection writes', async () => {
+      const cache = enableReadCache(mockFirestore);
+      (doc as jest.Mock).mockImplementation((_ref, id) => ({ id, path: `test-collection/${id}` }));
+      (getDoc as jest.Mock).mockResolvedValue({ exists: () => true, data: () => ({ name: 'cached' }) });
+
+      await collectionRef.get('a');
+      await collectionRef.get('a');
+      expect(getDoc).toHaveBeenCalledTimes(1);
+
+      await collectionRef.set('a', { name: 'changed' });
+      await collectionRef.get('a');
+      expect(getDoc).toHaveBeenCalledTimes(2);
+
+      await collectionRef.delete('a');
+      await collectionRef.get('a');
+      expect(getDoc).toHaveBeenCalledTimes(3);
+      expect(cache.stats).toEqual({ hits: 1, misses: 3, invalidations: 2 });
+    });
+
+    it('should bypass the cache for server reads', async () => {
+      enableReadCache(mockFirestore);
+      (doc as jest.Mock).mockImplementation((_ref, id) => ({ id, path: `test-collection/${id}` }));
+      (getDoc as jest.Mock).mockResolvedValue({ exists: () => true, data: () => ({ name: 'cached' }) });
+      (getDocFromServer as jest.Mock).mockResolvedValue({ exists: () => true, data: () => ({ name: 'fresh' }) });
+
+      await collectionRef.get('a');
+      const result = await collectionRef.get('a', { source: 'server' });
+
+      expect(result).toEqual({ name: 'fresh' });
+      expect(getDoc).toHaveBeenCalledTimes(1);
+      expect(getDocFromServer).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('create()', () => {
+    const transaction = { get: jest.fn(), set: jest.fn() };
+
+    beforeEach(() => {
+      (doc as jest.Mock).mockImplementation((_ref, id) => ({ id, path: `test-collection/${id}` }));
+      (runTransaction as jest.Mock).mockImplementation(async (_firestore, fn) => fn(transaction));
+    });
+
+    it('should write the document in a transaction when it does not exist', async () => {
+      transaction.get.mockResolvedValue({ exists: () => false });
+
+      const ref = await collectionRef.create('new-id', { name: 'New' });
+
+      expect(ref).toEqual({ id: 'new-id', path: 'test-collection/new-id' });
+      expect(transaction.set).toHaveBeenCalledWith(ref, { name: 'New' });
+    });
+
+    it('should fail with a DocumentExistsError when the document exists', async () => {
+      transaction.get.mockResolvedValue({ exists: () => true });
+
+      const promise = collectionRef.create('taken', { name: 'New' });
+
+      await expect(promise).rejects.toThrow(DocumentExistsError);
+      await expect(promise).rejects.toThrow("Document 'test-collection/taken' already exists.");
+      expect(transaction.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('add() with ID generation', () => {
+    let transaction: { get: jest.Mock; set: jest.Mock };
+    const takenIds = new Set(['ada-lovelace', 'ada-lovelace-2']);
+
+    const refWith = (idGeneration: any) =>
+      new ClientBaseCollectionRef<any, any>(mockFirestore, 'test-collection', { fields: {}, idGeneration });
+
+    beforeEach(() => {
+      (doc as jest.Mock).mockImplementation((_ref, id) => ({ id, path: `test-collection/${id}` }));
+      transaction = {
+        get: jest.fn(async (ref: any) => ({ exists: () => takenIds.has(ref.id) })),
+        set: jest.fn(),
+      };
+      (runTransaction as jest.Mock).mockImplementation((_db, update) => update(transaction));
+    });
+
+    it('should write time-sortable IDs directly', async () => {
+      const docRef = await refWith({ strategy: 'ulid' }).add({ name: 'A' });
+
+      expect(docRef.id).toMatch(/^[0-9A-Z]{26}$/);
+      expect(setDoc).toHaveBeenCalledWith(docRef, { name: 'A' });
+      expect(addDoc).not.toHaveBeenCalled();
+    });
+
+    it('should claim field-derived IDs in a transaction', async () => {
+      const docRef = await refWith({ strategy: 'fields', fields: ['name'] }).add({ name: 'Grace Hopper' });
+
+      expect(docRef.path).toBe('test-collection/grace-hopper');
+      expect(transaction.set).toHaveBeenCalledWith(docRef, { name: 'Grace Hopper' });
+    });
+
+    it('should fail with a DocumentExistsError when the ID is taken', async () => {
+      await expect(refWith({ strategy: 'fields', fields: ['name'] }).add({ name: 'Ada Lovelace' }))
+        .rejects.toBeInstanceOf(DocumentExistsError);
+      expect(transaction.set).not.toHaveBeenCalled();
+    });
+
+    it('should suffix taken IDs under the suffix policy, up to maxAttempts', async () => {
+      const docRef = await refWith({ strategy: 'fields', fields: ['name'], onCollision: 'suffix' }).add({ name: 'Ada Lovelace' });
+      expect(docRef.id).toBe('ada-lovelace-3');
+
+      await expect(refWith({ strategy: 'fields', fields: ['name'], onCollision: 'suffix', maxAttempts: 2 }).add({ name: 'Ada Lovelace' }))
+        .rejects.toThrow(`Document 'test-collection/ada-lovelace-2' already exists.`);
+    });
+  });
+
+  describe('set() with optimistic locking', () => {
+    let lockedRef: ClientBaseCollectionRef<any, any>;
+    const transaction = { get: jest.fn(), set: jest.fn() };
+
+    beforeEach(() => {
+      lockedRef = new ClientBaseCollectionRef<any, any>(mockFirestore, 'test-collection', {
+        fields: {},
+        optimisticLocking: { strategy: 'version' },
+      });
+      (doc as jest.Mock).mockImplementation((_ref, id) => ({ id, path: `test-collection/${id}` }));
+      (runTransaction as jest.Mock).mockImplementation(async (_firestore, fn) => fn(transaction));
+    });
+
+    it('should write the bumped version in a transaction when the version matches', async () => {
+      transaction.get.mockResolvedValue({ exists: () => true, get: () => 2 });
+
+      await lockedRef.set('a', { name: 'Edited', version: 2 });
+
+      expect(setDoc).not.toHaveBeenCalled();
+      expect(transaction.set).toHaveBeenCalledWith(
+        { id: 'a', path: 'test-collection/a' },
+        { name: 'Edited', version: 3 },
+        {}
+      );
+    });
+
+    it('should fail with a ConflictError when the document changed since it was read', async () => {
+      transaction.get.mockResolvedValue({ exists: () => true, get: () => 3 });
+
+      await expect(lockedRef.set('a', { name: 'Stale', version: 2 })).rejects.toThrow(ConflictError);
+      expect(transaction.set).not.toHaveBeenCalled();
+    });
+
+    it('should add the lock field to mergeFields so the lock advances', async () => {
+      transaction.get.mockResolvedValue({ exists: () => true, get: () => 2 });
+
+      await lockedRef.set('a', { name: 'Edited', version: 2 }, { mergeFields: ['name'] });
+
+      expect(transaction.set).toHaveBeenCalledWith(
+        { id: 'a', path: 'test-collection/a' },
+        { name: 'Edited', version: 3 },
+        { mergeFields: ['name', 'version'] }
+      );
+    });
+
+    it('should check updateTime locks against the caller\'s value when timestamps share the field', async () => {
+      const readAt = Timestamp.fromMillis(1000);
+      const timedRef = new ClientBaseCollectionRef<any, any>(mockFirestore, 'test-collection', {
+        fields: {},
+        optimisticLocking: { strategy: 'updateTime' },
+        timestamps: { updatedAt: 'updatedAt' },
+      });
+      transaction.get.mockResolvedValue({ exists: () => true, get: () => Timestamp.fromMillis(1000) });
+
+      await timedRef.set('a', { name: 'Edited', updatedAt: readAt });
+
+      expect(transaction.set).toHaveBeenCalledWith(
+        { id: 'a', path: 'test-collection/a' },
+        { name: 'Edited', updatedAt: MOCK_SERVER_TIMESTAMP },
+        {}
+      );
+    });
+  });
+
+  describe('managed timestamps', () => {
+    let timestampedRef: ClientBaseCollectionRef<any, any>;
+
+    beforeEach(() => {
+      timestampedRef = new ClientBaseCollectionRef<any, any>(mockFirestore, 'test-collection', {
+        fields: {},
+        timestamps: { createdAt: 'createdAt', updatedAt: 'updatedAt' },
+      });
+      (doc as jest.Mock).mockImplementation((_ref, id) => ({ id, path: `test-collection/${id}` }));
+    });
+
+    it('should set both timestamps on add(), ignoring caller values', async () => {
+      await timestampedRef.add({ name: 'A', createdAt: new Date(0) });
+
+      expect(addDoc).toHaveBeenCalledWith(timestampedRef.ref, {
+        name: 'A',
+        createdAt: MOCK_SERVER_TIMESTAMP,
+        updatedAt: MOCK_SERVER_TIMESTAMP,
+      });
+    });
+
+    describe('set()', () => {
+      const created = Timestamp.fromMillis(1000);
+      const transaction = { get: jest.fn(), set: jest.fn() };
+      const existing = { exists: () => true, get: (field: string) => (field === 'createdAt' ? created : undefined) };
+
+      beforeEach(() => {
+        (runTransaction as jest.Mock).mockImplementation(async (_firestore, fn) => fn(transaction));
+      });
+
+      it('should only set updatedAt when merging into an existing document, including mergeFields sets', async () => {
+        transaction.get.mockResolvedValue(existing);
+
+        await timestampedRef.set('a', { name: 'B', createdAt: new Date(0) }, { merge: true });
+        await timestampedRef.set('a', { name: 'C' }, { mergeFields: ['name'] });
+
+        expect(setDoc).not.toHaveBeenCalled();
+        expect(transaction.set).toHaveBeenNthCalledWith(1, expect.anything(), { name: 'B', updatedAt: MOCK_SERVER_TIMESTAMP }, { merge: true });
+        expect(transaction.set).toHaveBeenNthCalledWith(2, expect.anything(), { name: 'C', updatedAt: MOCK_SERVER_TIMESTAMP }, { mergeFields: ['name', 'updatedAt'] });
+      });
+
+      it('should set createdAt when a merge set creates the document', async () => {
+        transaction.get.mockResolvedValue({ exists: () => false });
+
+        await timestampedRef.set('a', { name: 'C' }, { mergeFields: ['name'] });
+
+        expect(transaction.set).toHaveBeenCalledWith(
+          expect.anything(),
+          { name: 'C', createdAt: MOCK_SERVER_TIMESTAMP, updatedAt: MOCK_SERVER_TIMESTAMP },
+          { mergeFields: ['name', 'updatedAt', 'createdAt'] }
+        );
+      });
+
+      it('should keep the stored createdAt when a full set overwrites the document', async () => {
+        transaction.get.mockResolvedValueOnce(existing).mockResolvedValueOnce({ exists: () => false });
+
+        await timestampedRef.set('a', { name: 'D', createdAt: new Date(0) });
+        await timestampedRef.set('b', { name: 'E' });
+
+        expect(transaction.set).toHaveBeenNthCalledWith(1, expect.anything(), { name: 'D', createdAt: created, updatedAt: MOCK_SERVER_TIMESTAMP }, {});
+        expect(transaction.set).toHaveBeenNthCalledWith(2, expect.anything(), { name: 'E', createdAt: MOCK_SERVER_TIMESTAMP, updatedAt: MOCK_SERVER_TIMESTAMP }, {});
+      });
+
+      it('should write caller createdAt values directly when overrides are allowed', async () => {
+        const overridable = new ClientBaseCollectionRef<any, any>(mockFirestore, 'test-collection', {
+          fields: {},
+          timestamps: { createdAt: 'createdAt', allowOverride: true },
+        });
+
+        await overridable.set('a', { name: 'F', createdAt: created });
+
+        expect(transaction.get).not.toHaveBeenCalled();
+        expect(setDoc).toHaveBeenCalledWith(expect.anything(), { name: 'F', createdAt: created }, {});
+      });
+    });
+
+    it('should pass the configuration to update builders', () => {
+      expect((timestampedRef as any).getUpdateBuilderOptions()).toEqual({
+        optimisticLocking: undefined,
+        timestamps: { createdAt: 'createdAt', updatedAt: 'updatedAt' },
+      });
+    });
+
+    it('should create update builders configured from the schema', async () => {
+      await (timestampedRef as any).createUpdateBuilder('a')._set('name', 'D').commit();
+
+      expect(updateDoc).toHaveBeenCalledWith({ id: 'a', path: 'test-collection/a' }, { name: 'D', updatedAt: MOCK_SERVER_TIMESTAMP });
+    });
+  });
+
+  describe('soft deletes', () => {
+    let softRef: ClientBaseCollectionRef<any, any>;
+    const snapshotOf = (data: any) => ({
+      exists: () => true,
+      data: () => data,
+      id: 'a',
+      ref: { id: 'a', path: 'test-collection/a' },
+      metadata: { fromCache: false, hasPendingWrites: false },
+    });
+
+    beforeEach(() => {
+      softRef = new ClientBaseCollectionRef<any, any>(mockFirestore, 'test-collection', {
+        fields: {},
+        softDelete: {},
+      });
+      (doc as jest.Mock).mockImplementation((_ref, id) => ({ id, path: `test-collection/${id}` }));
+    });
+
+    it('should write a null marker when creating documents', async () => {
+      await softRef.add({ name: 'A' });
+      await softRef.set('b', { name: 'B' });
+
+      expect(addDoc).toHaveBeenCalledWith(softRef.ref, { deletedAt: null, name: 'A' });
+      expect(setDoc).toHaveBeenCalledWith({ id: 'b', path: 'test-collection/b' }, { deletedAt: null, name: 'B' }, {});
+    });
+
+    it('should write the marker only when a merge set creates the document', async () => {
+      const transaction = { get: jest.fn(), set: jest.fn() };
+      (runTransaction as jest.Mock).mockImplementation(async (_firestore, fn) => fn(transaction));
+
+      transaction.get.mockResolvedValueOnce({ exists: () => false });
+      await softRef.set('a', { name: 'A' }, { merge: true });
+      transaction.get.mockResolvedValueOnce({ exists: () => false });
+      await softRef.set('a', { name: 'A' }, { mergeFields: ['name'] });
+      transaction.get.mockResolvedValueOnce({ exists: () => true });
+      await softRef.set('a', { name: 'A' }, { merge: true });
+
+      expect(setDoc).not.toHaveBeenCalled();
+      expect(transaction.set).toHaveBeenNthCalledWith(1, { id: 'a', path: 'test-collection/a' }, { deletedAt: null, name: 'A' }, { merge: true });
+      expect(transaction.set).toHaveBeenNthCalledWith(2, expect.anything(), { deletedAt: null, name: 'A' }, { mergeFields: ['name', 'deletedAt'] });
+      expect(transaction.set).toHaveBeenNthCalledWith(3, expect.anything(), { name: 'A' }, { merge: true });
+    });
+
+    it('should set the marker on delete() and clear it on restore()', async () => {
+      await softRef.delete('a');
+      await softRef.restore('a');
+
+      expect(updateDoc).toHaveBeenNthCalledWith(1, { id: 'a', path: 'test-collection/a' }, { deletedAt: MOCK_SERVER_TIMESTAMP });
+      expect(updateDoc).toHaveBeenNthCalledWith(2, { id: 'a', path: 'test-collection/a' }, { deletedAt: null });
+      expect(deleteDoc).not.toHaveBeenCalled();
+    });
+
+    it('should ignore deleting a document that does not exist', async () => {
+      (updateDoc as jest.Mock).mockRejectedValueOnce(Object.assign(new Error('No document to update'), { code: 'not-found' }));
+      await expect(softRef.delete('missing')).resolves.toBeUndefined();
+    });
+
+    it('should hard-delete on purge()', async () => {
+      await softRef.purge('a');
+      expect(deleteDoc).toHaveBeenCalledWith({ id: 'a', path: 'test-collection/a' });
+      expect(updateDoc).not.toHaveBeenCalled();
+    });
+
+    it('should reject restore() on collections without soft deletes', async () => {
+      await expect(collectionRef.restore('a')).rejects.toThrow(`Collection 'test-collection' does not use soft deletes.`);
+    });
+
+    it('should treat soft-deleted documents as missing unless read through withDeleted()', async () => {
+      const deleted = { name: 'A', deletedAt: new Date(0) };
+      (getDoc as jest.Mock).mockResolvedValue(snapshotOf(deleted));
+
+      expect(await softRef.get('a')).toBeUndefined();
+      expect(await softRef.getMany(['a'])).toEqual([undefined]);
+      expect(await softRef.getDoc('a')).toMatchObject({ exists: false, data: undefined });
+      expect(await softRef.withDeleted().get('a')).toEqual(deleted);
+    });
+
+    it('should return live documents', async () => {
+      (getDoc as jest.Mock).mockResolvedValue(snapshotOf({ name: 'A', deletedAt: null }));
+      expect(await softRef.get('a')).toEqual({ name: 'A', deletedAt: null });
+    });
+
+    it('should pass the configuration to query builders, except from the withDeleted() view', () => {
+      expect((softRef as any).getQueryBuilderOptions()).toEqual({ softDelete: {} });
+      expect((softRef.withDeleted() as any).getQueryBuilderOptions()).toEqual({ softDelete: undefined });
+    });
+
+    it('should create query builders with the soft-delete filter', () => {
+      const builder = (softRef as any).createQueryBuilder();
+
+      expect(builder).toBeInstanceOf(ClientBaseQueryBuilder);
+      expect(builder.getConstraintDefinitions()).toEqual([{ type: 'where', fieldPath: 'deletedAt', opStr: '==', value: null }]);
+      expect((softRef.withDeleted() as any).createQueryBuilder().getConstraintDefinitions()).toEqual([]);
+    });
+  });
+
+  describe('deleteRecursive()', () => {
+    const schemaWithTree = {
+      fields: {},
+      subCollections: {
+        posts: {
+          collectionClass: MockSubCollection,
+          schema: { fields: {}, subCollections: { comments: { collectionClass: MockSubCollection } } },
+        },
+        tags: { collectionClass: MockSubCollection },
+      },
+    };
+    const documents: Record<string, string[]> = {
+      'users/u1/posts': ['p1', 'p2'],
+      'users/u1/posts/p1/comments': ['c1'],
+      'users/u1/tags': ['t1'],
+    };
+    let batch: { delete: jest.Mock; commit: jest.Mock };
+    let treeRef: ClientBaseCollectionRef<any, any>;
+
+    beforeEach(() => {
+      (collection as jest.Mock).mockImplementation((parent, id) => ({ id, path: parent.path ? `${parent.path}/${id}` : id }));
+      (doc as jest.Mock).mockImplementation((ref, id) => ({ id, path: `${ref.path}/${id}`, parent: ref }));
+      (getDocs as jest.Mock).mockImplementation(async (ref: any) => ({
+        docs: (documents[ref.path] ?? []).map(id => ({ id, ref: { id, path: `${ref.path}/${id}`, parent: ref } })),
+      }));
+      batch = { delete: jest.fn(), commit: jest.fn().mockResolvedValue(undefined) };
+      (writeBatch as jest.Mock).mockReturnValue(batch);
+      treeRef = new ClientBaseCollectionRef<any, any>(mockFirestore, 'users', schemaWithTree);
+    });
+
+    const expectedPaths = [
+      'users/u1/posts/p1/comments/c1',
+      'users/u1/posts/p1',
+      'users/u1/posts/p2',
+      'users/u1/tags/t1',
+      'users/u1',
+    ];
+
+    it('should list descendants before their parents without deleting in a dry run', async () => {
+      const result = await treeRef.deleteRecursive('u1', { dryRun: true });
+
+      expect(result).toEqual({ paths: expectedPaths, deletedCount: 0, dryRun: true });
+      expect(writeBatch).not.toHaveBeenCalled();
+    });
+
+    it('should delete the whole tree bottom-up in batches, reporting progress', async () => {
+      const onProgress = jest.fn();
+
+      const result = await treeRef.deleteRecursive('u1', { batchSize: 2, onProgress });
+
+      expect(result).toEqual({ paths: expectedPaths, deletedCount: 5, dryRun: false });
+      expect(batch.delete.mock.calls.map(call => call[0].path)).toEqual(expectedPaths);
+      expect(batch.commit).toHaveBeenCalledTimes(3);
+      expect(onProgress).toHaveBeenLastCalledWith({ deleted: 5, total: 5 });
+    });
+
+    it('should delete only the document when the schema declares no sub-collections', async () => {
+      const result = await collectionRef.deleteRecursive('a', { dryRun: true });
+      expect(result.paths).toEqual(['test-collection/a']);
+    });
+  });
+
+  describe('copy() / move()', () => {
+    const schemaWithTree = {
+      fields: {},
+      subCollections: {
+        tasks: {
+          collectionClass: MockSubCollection,
+          schema: { fields: {}, subCollections: { notes: { collectionClass: MockSubCollection } } },
+        },
+      },
+    };
+    const documents: Record<string, Record<string, any>> = {
+      'projects/tpl': { name: 'Template' },
+      'projects/tpl/tasks': { t1: { title: 'Plan' } },
+      'projects/tpl/tasks/t1/notes': { n1: { text: 'Draft' } },
+    };
+    let batch: { set: jest.Mock; delete: jest.Mock; commit: jest.Mock };
+    let projects: ClientBaseCollectionRef<any, any>;
+
+    beforeEach(() => {
+      (collection as jest.Mock).mockImplementation((parent, id) => ({ id, path: parent.path ? `${parent.path}/${id}` : id }));
+      (doc as jest.Mock).mockImplementation((ref, id) => ({ id, path: `${ref.path}/${id}`, parent: ref }));
+      (getDoc as jest.Mock).mockImplementation(async (ref: any) => ({
+        exists: () => documents[ref.path] !== undefined,
+        data: () => documents[ref.path],
+      }));
+      (getDocs as jest.Mock).mockImplementation(async (ref: any) => ({
+        docs: Object.entries(documents[ref.path] ?? {}).map(([id, data]) => ({
+          id,
+          data: () => data,
+          ref: { id, path: `${ref.path}/${id}`, parent: ref },
+        })),
+      }));
+      batch = { set: jest.fn(), delete: jest.fn(), commit: jest.fn().mockResolvedValue(undefined) };
+      (writeBatch as jest.Mock).mockReturnValue(batch);
+      projects = new ClientBaseCollectionRef<any, any>(mockFirestore, 'projects', schemaWithTree);
+    });
+
+    const writtenPaths = () => batch.set.mock.calls.map(call => call[0].path);
+
+    it('should copy the document and its sub-collection trees, parents first', async () => {
+      const result = await projects.copy('tpl', 'p1');
+
+      expect(result.paths).toEqual(['projects/p1', 'projects/p1/tasks/t1', 'projects/p1/tasks/t1/notes/n1']);
+      expect(result.ref.path).toBe('projects/p1');
+      expect(batch.set.mock.calls.map(call => call[1])).toEqual([{ name: 'Template' }, { title: 'Plan' }, { text: 'Draft' }]);
+    });
+
+    it('should copy into another parent collection', async () => {
+      const archive = new ClientBaseCollectionRef<any, any>(mockFirestore, 'archive', undefined, { path: 'orgs/o1' } as any);
+      (archive as any).schema = schemaWithTree;
+
+      await projects.copy('tpl', 'p1', { target: archive });
+
+      expect(writtenPaths()).toEqual(['orgs/o1/archive/p1', 'orgs/o1/archive/p1/tasks/t1', 'orgs/o1/archive/p1/tasks/t1/notes/n1']);
+    });
+
+    it('should fail without writing when the source is missing or the target exists', async () => {
+      await expect(projects.copy('missing', 'p1')).rejects.toThrow(`Document 'projects/missing' does not exist.`);
+      documents['projects/taken'] = { name: 'Taken' };
+      try {
+        await expect(projects.copy('tpl', 'taken')).rejects.toBeInstanceOf(DocumentExistsError);
+        await projects.copy('tpl', 'taken', { overwrite: true });
+      } finally {
+        delete documents['projects/taken'];
+      }
+      expect(writtenPaths()[0]).toBe('projects/taken');
+    });
+
+    it('should delete the source tree only after the copy succeeded on move()', async () => {
+      await projects.move('tpl', 'p2');
+
+      expect(batch.delete.mock.calls.map(call => call[0].path)).toEqual([
+        'projects/tpl/tasks/t1/notes/n1',
+        'projects/tpl/tasks/t1',
+        'projects/tpl',
+      ]);
+      expect(batch.set.mock.invocationCallOrder[0]).toBeLessThan(batch.delete.mock.invocationCallOrder[0]);
+    });
+
+    it('should keep the source when the copy fails on move()', async () => {
+      batch.commit.mockRejectedValueOnce(new Error('denied'));
+
+      await expect(projects.move('tpl', 'p2')).rejects.toThrow('denied');
+      expect(batch.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onDoc()', () => {
+    it('should subscribe via onSnapshot() and deliver document data', () => {
+      const testId = 'live-doc-id';
+      const mockDocRefInternal = { id: testId, path: `test-collection/${testId}` };
+      const mockUnsubscribe = jest.fn();
+      const onNext = jest.fn();
+      const onError = jest.fn();
+
+      (doc as jest.Mock).mockReturnValue(mockDocRefInternal);
+      (onSnapshot as jest.Mock).mockReturnValue(mockUnsubscribe);
+
+      const unsubscribe = collectionRef.onDoc(testId, onNext, onError);
+
+      expect(onSnapshot).toHaveBeenCalledWith(mockDocRefInternal, expect.any(Function), onError);
+      expect(unsubscribe).toBe(mockUnsubscribe);
+
+      // Simulate snapshots emitted by the SDK
+      const listener = (onSnapshot as jest.Mock).mock.calls[0][1];
+      listener({ exists: () => true, data: () => ({ name: 'Live' }) });
+      listener({ exists: () => false, data: () => undefined });
+
+      expect(onNext).toHaveBeenNthCalledWith(1, { name: 'Live' });
+      expect(onNext).toHaveBeenNthCalledWith(2, undefined);
+    });
+  });
+
+  describe('onSnapshot()', () => {
+    it('should subscribe to the collection and deliver mapped data', () => {
+      const onNext = jest.fn();
+      const internalCollectionRef = (collection as jest.Mock).mock.results[0].value;
+
+      collectionRef.onSnapshot(onNext);
+
+      expect(onSnapshot).toHaveBeenCalledWith(internalCollectionRef, expect.any(Function), undefined);
+      const listener = (onSnapshot as jest.Mock).mock.calls[0][1];
+      listener({ docs: [{ data: () => ({ name: 'A' }) }, { data: () => ({ name: 'B' }) }] });
+      expect(onNext).toHaveBeenCalledWith([{ name: 'A' }, { name: 'B' }]);
+    });
+  });
+
   // --- Test subCollection() ---
   describe('subCollection()', () => {
     const parentDocId = 'parent-123';
@@ -402,4 +1140,41 @@ describe('ClientBaseCollectionRef', () => { // Renamed describe block
       expect(collection).toHaveBeenCalledWith(expect.anything(), subCollectionId);
     });
   }); // Close describe('subCollection()', ...)
+
+  // --- Test collectionGroup() ---
+  describe('collectionGroup()', () => {
+    const schemaWithSub = {
+      fields: { name: {} },
+      subCollections: { 'sub-items': { collectionClass: MockSubCollection } },
+    };
+    const mockGroupQuery = { __type: 'collectionGroupQuery' };
+
+    class MockSubQueryBuilder extends ClientBaseQueryBuilder<any> {}
+
+    beforeEach(() => {
+      collectionRef = new ClientBaseCollectionRef<TestData, TestAddData>(mockFirestore, 'test-collection', schemaWithSub);
+      (collectionGroup as jest.Mock).mockReturnValue(mockGroupQuery);
+    });
+
+    it('should return a query builder over the collection group', () => {
+      const builder = collectionRef.collectionGroup('sub-items');
+
+      expect(collectionGroup).toHaveBeenCalledWith(mockFirestore, 'sub-items');
+      expect(builder).toBeInstanceOf(ClientBaseQueryBuilder);
+      expect((builder as any).collectionRef).toBe(mockGroupQuery);
+      expect(builder.getQueryKey()).toBe('collectionGroup:sub-items|');
+    });
+
+    it('should instantiate the provided query builder class', () => {
+      const builder = collectionRef.collectionGroup('sub-items', MockSubQueryBuilder);
+      expect(builder).toBeInstanceOf(MockSubQueryBuilder);
+    });
+
+    it('should throw if the sub-collection is not declared in the schema', () => {
+      expect(() => collectionRef.collectionGroup('unknown')).toThrow(
+        `Sub-collection 'unknown' not found in schema for collection 'test-collection'`
+      );
+      expect(collectionGroup).not.toHaveBeenCalled();
+    });
+  });
 }); // Close describe('ClientBaseCollectionRef', ...)
@@ -1,10 +1,13 @@
 import { ClientBaseQueryBuilder } from '../baseQueryBuilder';
+import { QueryValidationError } from '../queryValidation';
+import { enableRequestCoalescing, disableRequestCoalescing } from '../requestCoalescing';
+import { enableReadCache, disableReadCache } from '../readCache';
+import { Timestamp, DocumentSnapshot as DocumentSnapshotClass } from 'firebase/firestore';
 import type {
   Firestore,
   CollectionReference,
   Query,
   DocumentData,
-  Timestamp,
   WhereFilterOp,
   OrderByDirection,
   DocumentSnapshot, // Import DocumentSnapshot for cursor tests
@@ -16,6 +19,8 @@ import type {
 import {
   query,
   where,
+  or,
+  and,
   orderBy,
   limit,
   limitToLast,
@@ -24,6 +29,11 @@ import {
   endAt,
   endBefore,
   getDocs,
+  onSnapshot,
+  getAggregateFromServer,
+  count,
+  sum,
+  average,
 } from 'firebase/firestore';
 
 // --- Mocks ---
@@ -32,6 +42,8 @@ import {
 jest.mock('firebase/firestore', () => {
   // Create mock constraint functions that return identifiable objects
   const mockWhere = jest.fn((...args) => ({ __type: 'whereConstraint', args }));
+  const mockOr = jest.fn((...filters) => ({ __type: 'orFilter', filters }));
+  const mockAnd = jest.fn((...filters) => ({ __type: 'andFilter', filters }));
   const mockOrderBy = jest.fn((...args) => ({ __type: 'orderByConstraint', args }));
   const mockLimit = jest.fn((...args) => ({ __type: 'limitConstraint', args }));
   const mockLimitToLast = jest.fn((...args) => ({ __type: 'limitToLastConstraint', args }));
@@ -43,11 +55,15 @@ jest.mock('firebase/firestore', () => {
   // Mock the main query function
   const mockQuery = jest.fn();
   const mockGetDocs = jest.fn();
+  const mockOnSnapshot = jest.fn();
+  const mockGetAggregateFromServer = jest.fn();
 
   return {
     ...(jest.requireActual('firebase/firestore')), // Keep actual types etc.
     query: mockQuery,
     where: mockWhere,
+    or: mockOr,
+    and: mockAnd,
     orderBy: mockOrderBy,
     limit: mockLimit,
     limitToLast: mockLimitToLast,
@@ -56,6 +72,13 @@ jest.mock('firebase/firestore', () => {
     endAt: mockEndAt,
     endBefore: mockEndBefore,
     getDocs: mockGetDocs,
+    getDocsFromCache: jest.fn(),
+    getDocsFromServer: jest.fn(),
+    onSnapshot: mockOnSnapshot,
+    getAggregateFromServer: mockGetAggregateFromServer,
+    count: jest.fn(() => ({ __type: 'count' })),
+    sum: jest.fn((field) => ({ __type: 'sum', field })),
+    average: jest.fn((field) => ({ __type: 'average', field })),
     // Mock serverTimestamp if needed for specific query values
     // serverTimestamp: jest.fn(() => ({ type: 'serverTimestamp' })),
   };
@@ -104,6 +127,7 @@ describe('ClientBaseQueryBuilder', () => {
     (endAt as jest.Mock).mockClear();
     (endBefore as jest.Mock).mockClear();
     (getDocs as jest.Mock).mockClear();
+    (onSnapshot as jest.Mock).mockClear();
 
 
     // Instantiate the builder with the mock initial reference
@@ -115,6 +139,32 @@ describe('ClientBaseQueryBuilder', () => {
     expect((queryBuilder as any).constraintDefinitions).toEqual([]);
   });
 
+  describe('soft deletes', () => {
+    const softBuilder = () => new ClientBaseQueryBuilder<TestData>(mockFirestore, mockInitialRef, { softDelete: { field: 'removedAt' } });
+
+    it('should start with a filter excluding soft-deleted documents', () => {
+      softBuilder().buildQuery();
+
+      expect(where).toHaveBeenCalledWith('removedAt', '==', null);
+      expect(softBuilder().getConstraintDefinitions()).toEqual([{ type: 'where', fieldPath: 'removedAt', opStr: '==', value: null }]);
+    });
+
+    it('should drop only that filter in withDeleted()', () => {
+      const builder = (softBuilder() as any)._where('name', '==', 'A').limit(5);
+      const withDeleted = builder.withDeleted();
+
+      expect(withDeleted.getConstraintDefinitions()).toEqual([
+        { type: 'where', fieldPath: 'name', opStr: '==', value: 'A' },
+        { type: 'limit', limitCount: 5 },
+      ]);
+      expect(builder.getConstraintDefinitions()).toHaveLength(3);
+    });
+
+    it('should leave builders without soft deletes unchanged', () => {
+      expect(queryBuilder.withDeleted()).toBe(queryBuilder);
+    });
+  });
+
   // --- Test Where Clauses (using protected _where) ---
   describe('_where()', () => {
     it('should add a where constraint definition', () => {
@@ -152,6 +202,83 @@ describe('ClientBaseQueryBuilder', () => {
     });
   });
 
+  // --- Test Composite Filters ---
+  describe('or() / and()', () => {
+    it('should add an immutable composite filter definition from branch callbacks', () => {
+      const result = queryBuilder.or(
+        q => (q as any)._where('name', '==', 'A'),
+        q => (q as any)._where('count', '>', 5)._where('active', '==', true)
+      );
+
+      expect((queryBuilder as any).constraintDefinitions).toEqual([]);
+      expect((result as any).constraintDefinitions).toEqual([{
+        type: 'or',
+        filters: [
+          { type: 'where', fieldPath: 'name', opStr: '==', value: 'A' },
+          {
+            type: 'and',
+            filters: [
+              { type: 'where', fieldPath: 'count', opStr: '>', value: 5 },
+              { type: 'where', fieldPath: 'active', opStr: '==', value: true },
+            ],
+          },
+        ],
+      }]);
+    });
+
+    it('should not let branches see constraints of the parent builder', () => {
+      const base = (queryBuilder as any)._where('active', '==', true);
+      const result = base.or((q: any) => q._where('name', '==', 'A'), (q: any) => q._where('name', '==', 'B'));
+      expect(result.constraintDefinitions).toHaveLength(2);
+      expect(result.constraintDefinitions[1].filters).toHaveLength(2);
+    });
+
+    it('should reject branches that add non-filter constraints', () => {
+      expect(() => queryBuilder.or(q => q.limit(1))).toThrow('Composite filter branches');
+      expect(() => queryBuilder.or(q => q)).toThrow('Composite filter branches');
+    });
+
+    it('should build a single composite filter followed by non-filter constraints', () => {
+      const finalQuery = (queryBuilder as any)
+        ._where('active', '==', true)
+        .or((q: any) => q._where('name', '==', 'A'), (q: any) => q._where('name', '==', 'B'))
+        .orderBy('name')
+        .limit(5)
+        .buildQuery();
+
+      expect(or).toHaveBeenCalledTimes(1);
+      expect(and).toHaveBeenCalledTimes(1);
+      expect(query).toHaveBeenCalledWith(
+        mockInitialRef,
+        {
+          __type: 'andFilter',
+          filters: [
+            { __type: 'whereConstraint', args: ['active', '==', true] },
+            {
+              __type: 'orFilter',
+              filters: [
+                { __type: 'whereConstraint', args: ['name', '==', 'A'] },
+                { __type: 'whereConstraint', args: ['name', '==', 'B'] },
+              ],
+            },
+          ],
+        },
+        expect.objectContaining({ __type: 'orderByConstraint', args: ['name', 'asc'] }),
+        expect.objectContaining({ __type: 'limitConstraint', args: [5] })
+      );
+      expect(finalQuery).toBe(mockQueryObj);
+    });
+
+    it('should pass a lone composite filter through without wrapping it', () => {
+      queryBuilder.or(q => (q as any)._where('name', '==', 'A')).buildQuery();
+      expect(and).not.toHaveBeenCalled();
+      expect(query).toHaveBeenCalledWith(mockInitialRef, {
+        __type: 'orFilter',
+        filters: [{ __type: 'whereConstraint', args: ['name', '==', 'A'] }],
+      });
+    });
+  });
+
   // --- Test OrderBy Clauses ---
   describe('orderBy()', () => {
     it('should add an orderBy constraint definition', () => {
@@ -215,11 +342,13 @@ describe('ClientBaseQueryBuilder', () => {
 
      it('should build query with limitToLast constraint', () => {
         const limitNum = 15;
-        const finalQuery = queryBuilder.limitToLast(limitNum).buildQuery();
+        // limitToLast requires an orderBy clause
+        const finalQuery = queryBuilder.orderBy('name').limitToLast(limitNum).buildQuery();
 
         expect(limitToLast).toHaveBeenCalledWith(limitNum);
         expect(query).toHaveBeenCalledWith(
             mockInitialRef,
+            expect.objectContaining({ __type: 'orderByConstraint', args: ['name', 'asc'] }),
             expect.objectContaining({ __type: 'limitToLastConstraint', args: [limitNum] })
         );
         expect(finalQuery).toBe(mockQueryObj);
@@ -253,6 +382,179 @@ describe('ClientBaseQueryBuilder', () => {
 
   // Add similar tests for startAfter, endAt, endBefore...
 
+  // --- Test Pre-flight Validation ---
+  describe('buildQuery() validation', () => {
+    it('should throw a QueryValidationError naming the offending constraint', () => {
+      const builder = (queryBuilder as any)._where('count', '>', 5).orderBy('name');
+      expect(() => builder.buildQuery()).toThrow(QueryValidationError);
+      expect(() => builder.buildQuery()).toThrow(
+        "Invalid query: the first orderBy must be on the inequality field 'count' (at orderBy('name', 'asc'))"
+      );
+      expect(query).not.toHaveBeenCalled();
+    });
+
+    it('should also validate before executing the query', async () => {
+      await expect(queryBuilder.limitToLast(3).get()).rejects.toThrow(QueryValidationError);
+      expect(getDocs).not.toHaveBeenCalled();
+    });
+  });
+
+  // --- Test Serialization ---
+  describe('toJSON() / fromJSON()', () => {
+    class MockTypedQueryBuilder extends ClientBaseQueryBuilder<TestData> {}
+
+    it('should round-trip constraints, including Timestamp values and cursors', () => {
+      const collectionRef = { id: 'test-collection', path: 'test-collection', type: 'collection', firestore: mockFirestore } as any;
+      const original = (new MockTypedQueryBuilder(mockFirestore, collectionRef) as any)
+        ._where('createdAt', '>', new Timestamp(5, 0))
+        .or((q: any) => q._where('name', '==', 'A'), (q: any) => q._where('active', '==', true))
+        .orderBy('createdAt', 'desc')
+        .startAfter(new Timestamp(9, 0), 'doc-id')
+        .limit(10);
+
+      const json = JSON.stringify(original.toJSON());
+      const restored = MockTypedQueryBuilder.fromJSON(collectionRef, json);
+
+      expect(JSON.parse(json).path).toBe('test-collection');
+      expect(restored).toBeInstanceOf(MockTypedQueryBuilder);
+      expect((restored as any).collectionRef).toBe(collectionRef);
+      expect((restored as any).firestore).toBe(mockFirestore);
+      expect((restored as any).constraintDefinitions).toEqual(original.constraintDefinitions);
+    });
+
+    it('should store snapshot cursors as the snapshot values for the ordering', () => {
+      const snapshot = Object.create(DocumentSnapshotClass.prototype);
+      snapshot.get = (field: string) => ({ count: 3 } as any)[field];
+      Object.defineProperty(snapshot, 'id', { value: 'snap-id' });
+
+      const collectionRef = { path: 'test-collection', type: 'collection' } as any;
+      const json = new ClientBaseQueryBuilder<TestData>(mockFirestore, collectionRef).orderBy('count').startAfter(snapshot).toJSON();
+
+      expect(json.constraints[1]).toEqual({ type: 'startAfter', values: [3, 'snap-id'] });
+    });
+
+    it('should keep the soft-delete configuration passed as options', () => {
+      const collectionRef = { id: 'test-collection', path: 'test-collection', type: 'collection', firestore: mockFirestore } as any;
+      const options = { softDelete: { field: 'removedAt' } };
+      const json = (new ClientBaseQueryBuilder<TestData>(mockFirestore, collectionRef, options) as any)._where('name', '==', 'A').toJSON();
+
+      const restored = ClientBaseQueryBuilder.fromJSON(collectionRef, json, options);
+
+      expect(restored.getConstraintDefinitions()).toHaveLength(2);
+      expect(restored.withDeleted().getConstraintDefinitions()).toEqual([{ type: 'where', fieldPath: 'name', opStr: '==', value: 'A' }]);
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => ClientBaseQueryBuilder.fromJSON(mockInitialRef, { version: 2 } as any)).toThrow('Unsupported serialized query format.');
+    });
+  });
+
+  // --- Test Query Keys & Coalescing ---
+  describe('getQueryKey()', () => {
+    const collectionRef = { path: 'items', type: 'collection' } as any;
+    const builder = () => new ClientBaseQueryBuilder<TestData>(mockFirestore, collectionRef) as any;
+
+    it('should ignore the order filters were added in', () => {
+      const a = builder()._where('name', '==', 'A')._where('count', '>', 1).orderBy('count').limit(5);
+      const b = builder()._where('count', '>', 1)._where('name', '==', 'A').orderBy('count').limit(5);
+      expect(a.getQueryKey()).toBe(b.getQueryKey());
+      expect(a.getQueryKey().startsWith('items|')).toBe(true);
+    });
+
+    it('should distinguish values, orderings and collections', () => {
+      const base = builder()._where('createdAt', '>', new Timestamp(1, 0)).orderBy('createdAt');
+      const keys = [
+        base.getQueryKey(),
+        builder()._where('createdAt', '>', new Timestamp(2, 0)).orderBy('createdAt').getQueryKey(),
+        base.orderBy('name').getQueryKey(),
+        new ClientBaseQueryBuilder<TestData>(mockFirestore, { path: 'other', type: 'collection' } as any).getQueryKey(),
+      ];
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+
+    it('should identify collection group queries by the group ID they were created with', () => {
+      const groupRef = { type: 'query' } as any;
+      expect(new ClientBaseQueryBuilder<TestData>(mockFirestore, groupRef, { collectionGroupId: 'posts' }).getQueryKey()).toBe('collectionGroup:posts|');
+      expect(() => new ClientBaseQueryBuilder<TestData>(mockFirestore, groupRef).getQueryKey()).toThrow('Cannot derive a query key');
+    });
+  });
+
+  describe('get() with request coalescing', () => {
+    afterEach(() => disableRequestCoalescing(mockFirestore));
+
+    it('should share one getDocs() call between concurrent identical queries', async () => {
+      enableRequestCoalescing(mockFirestore);
+      const collectionRef = { path: 'items', type: 'collection' } as any;
+      (getDocs as jest.Mock).mockResolvedValue({ docs: [{ data: () => ({ name: 'A' }) }] } as any);
+
+      const first = (new ClientBaseQueryBuilder<TestData>(mockFirestore, collectionRef) as any)._where('name', '==', 'A');
+      const second = (new ClientBaseQueryBuilder<TestData>(mockFirestore, collectionRef) as any)._where('name', '==', 'A');
+      const other = (new ClientBaseQueryBuilder<TestData>(mockFirestore, collectionRef) as any)._where('name', '==', 'B');
+      const results = await Promise.all([first.get(), second.get(), other.get()]);
+
+      expect(getDocs).toHaveBeenCalledTimes(2);
+      expect(results[0]).toBe(results[1]);
+    });
+
+    it('should not coalesce when coalescing is disabled', async () => {
+      (getDocs as jest.Mock).mockResolvedValue({ docs: [] } as any);
+      const builder = new ClientBaseQueryBuilder<TestData>(mockFirestore, mockInitialRef);
+
+      await Promise.all([builder.get(), builder.get()]);
+
+      expect(getDocs).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('get() with the read cache', () => {
+    afterEach(() => disableReadCache(mockFirestore));
+
+    it('should serve repeated identical queries from the cache', async () => {
+      const cache = enableReadCache(mockFirestore, { ttls: { items: 1000 } });
+      const collectionRef = { id: 'items', path: 'items', type: 'collection' } as any;
+      (getDocs as jest.Mock).mockResolvedValue({ docs: [{ data: () => ({ name: 'A' }) }] } as any);
+      const builder = (new ClientBaseQueryBuilder<TestData>(mockFirestore, collectionRef) as any)._where('name', '==', 'A');
+
+      const first = await builder.get();
+      const second = await builder.get();
+
+      expect(getDocs).toHaveBeenCalledTimes(1);
+      expect(second).toBe(first);
+
+      await cache.invalidateCollection('items');
+      await builder.get();
+      expect(getDocs).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('read source', () => {
+    it('should run cache reads with getDocsFromCache() and server reads with getDocsFromServer()', async () => {
+      const { getDocsFromCache, getDocsFromServer } = jest.requireMock('firebase/firestore');
+      getDocsFromCache.mockResolvedValue({ empty: false, docs: [{ data: () => ({ name: 'cached' }) }] });
+      getDocsFromServer.mockResolvedValue({ empty: false, docs: [{ data: () => ({ name: 'fresh' }) }] });
+      const builder = new ClientBaseQueryBuilder<TestData>(mockFirestore, mockInitialRef);
+
+      expect(await builder.get({ source: 'cache' })).toEqual([{ name: 'cached' }]);
+      expect(await builder.getSnapshot({ source: 'server' })).toEqual({ empty: false, docs: expect.any(Array) });
+      expect(getDocsFromCache).toHaveBeenCalledWith(mockQueryObj);
+      expect(getDocsFromServer).toHaveBeenCalledWith(mockQueryObj);
+      expect(getDocs).not.toHaveBeenCalled();
+    });
+  });
+
+  // --- Test Local Evaluation ---
+  describe('matchLocal()', () => {
+    it('should apply the builder constraints to local documents', () => {
+      const docs = [{ name: 'B', count: 2 }, { name: 'A', count: 5 }, { name: 'C', count: 1 }] as TestData[];
+      const result = new ClientBaseQueryBuilder<TestData>(mockFirestore, mockInitialRef)
+        .orderBy('name', 'desc')
+        .limit(2)
+        .matchLocal(docs);
+
+      expect(result.map(doc => doc.name)).toEqual(['C', 'B']);
+    });
+  });
+
   // --- Test Execution ---
   describe('getSnapshot()', () => {
     it('should build query and call getDocs() on the final query object', async () => {
@@ -320,6 +622,120 @@ describe('ClientBaseQueryBuilder', () => {
     });
   });
 
+  describe('get() with oversized disjunctions', () => {
+    it('should fan out into parallel queries and merge the results', async () => {
+      const values = Array.from({ length: 35 }, (_, i) => `v${i}`);
+      const mockDoc = (id: string, count: number) => ({
+        id, ref: { id, path: `test-collection/${id}` }, data: () => ({ name: id, count }),
+        metadata: { fromCache: false, hasPendingWrites: false },
+      });
+      (getDocs as jest.Mock)
+        .mockResolvedValueOnce({ docs: [mockDoc('a', 2), mockDoc('b', 9)] })
+        .mockResolvedValueOnce({ docs: [mockDoc('c', 5), mockDoc('a', 2)] });
+
+      const result = await (queryBuilder as any)._where('name', 'in', values).orderBy('count', 'desc').limit(2).get();
+
+      expect(getDocs).toHaveBeenCalledTimes(2);
+      expect(where).toHaveBeenCalledWith('name', 'in', values.slice(0, 30));
+      expect(where).toHaveBeenCalledWith('name', 'in', values.slice(30));
+      expect(limit).toHaveBeenCalledTimes(2);
+      expect(result).toEqual([{ name: 'b', count: 9 }, { name: 'c', count: 5 }]);
+    });
+  });
+
+  describe('getDocs()', () => {
+    it('should return document envelopes with IDs, refs and metadata', async () => {
+      const refA = { id: '1', path: 'test-collection/1' };
+      const mockDocs = [
+        { data: () => ({ name: 'A', count: 1 }), id: '1', ref: refA, metadata: { fromCache: false, hasPendingWrites: true } },
+      ];
+      (getDocs as jest.Mock).mockResolvedValue({ docs: mockDocs, empty: false, size: 1 });
+
+      const result = await queryBuilder.getDocs();
+
+      expect(getDocs).toHaveBeenCalledWith(mockQueryObj);
+      expect(result).toEqual([
+        { id: '1', ref: refA, data: { name: 'A', count: 1 }, exists: true, fromCache: false, hasPendingWrites: true },
+      ]);
+    });
+  });
+
+  describe('getDocs() on a collection group', () => {
+    it('should report the parent document path of each hit', async () => {
+      const ref = { id: 'c1', path: 'posts/p1/comments/c1', parent: { parent: { path: 'posts/p1' } } };
+      (getDocs as jest.Mock).mockResolvedValue({
+        docs: [{ data: () => ({ name: 'C' }), id: 'c1', ref, metadata: { fromCache: false, hasPendingWrites: false } }],
+      });
+
+      const [hit] = await queryBuilder.getDocs();
+
+      expect(hit.parentPath).toBe('posts/p1');
+    });
+  });
+
+  describe('aggregations', () => {
+    const mockAggregateResult = (data: any) =>
+      (getAggregateFromServer as jest.Mock).mockResolvedValue({ data: () => data });
+
+    it('should run count() on the built query', async () => {
+      mockAggregateResult({ count: 7 });
+
+      const result = await (queryBuilder as any)._where('active', '==', true).count();
+
+      expect(where).toHaveBeenCalledWith('active', '==', true);
+      expect(getAggregateFromServer).toHaveBeenCalledWith(mockQueryObj, { count: { __type: 'count' } });
+      expect(result).toBe(7);
+    });
+
+    it('should run sum() and average() for a numeric field', async () => {
+      mockAggregateResult({ sum: 42 });
+      await expect(queryBuilder.sum('count')).resolves.toBe(42);
+      expect(sum).toHaveBeenCalledWith('count');
+
+      mockAggregateResult({ average: null });
+      await expect(queryBuilder.average('count')).resolves.toBeNull();
+      expect(average).toHaveBeenCalledWith('count');
+    });
+
+    it('should combine several aggregations in aggregate()', async () => {
+      mockAggregateResult({ total: 3, countSum: 12, countAvg: 4 });
+
+      const result = await queryBuilder.limit(10).aggregate({
+        total: { op: 'count' },
+        countSum: { op: 'sum', field: 'count' },
+        countAvg: { op: 'average', field: 'count' },
+      });
+
+      expect(limit).toHaveBeenCalledWith(10);
+      expect(count).toHaveBeenCalledTimes(1);
+      expect(getAggregateFromServer).toHaveBeenCalledWith(mockQueryObj, {
+        total: { __type: 'count' },
+        countSum: { __type: 'sum', field: 'count' },
+        countAvg: { __type: 'average', field: 'count' },
+      });
+      expect(result).toEqual({ total: 3, countSum: 12, countAvg: 4 });
+    });
+  });
+
+  describe('onSnapshot()', () => {
+    it('should listen to the built query and deliver mapped data', () => {
+      const mockUnsubscribe = jest.fn();
+      const onNext = jest.fn();
+      const onError = jest.fn();
+      (onSnapshot as jest.Mock).mockReturnValue(mockUnsubscribe);
+
+      const unsubscribe = queryBuilder.limit(3).onSnapshot(onNext, onError);
+
+      expect(limit).toHaveBeenCalledWith(3);
+      expect(onSnapshot).toHaveBeenCalledWith(mockQueryObj, expect.any(Function), onError);
+      expect(unsubscribe).toBe(mockUnsubscribe);
+
+      const listener = (onSnapshot as jest.Mock).mock.calls[0][1];
+      listener({ docs: [{ data: () => ({ name: 'A', count: 1 }) }] });
+      expect(onNext).toHaveBeenCalledWith([{ name: 'A', count: 1 }]);
+    });
+  });
+
   // --- Test Chaining ---
   it('should allow chaining and build the correct query', () => {
     const finalBuilder = (queryBuilder as any)
@@ -1,4 +1,6 @@
-import { ClientBaseUpdateBuilder } from '../baseUpdateBuilder';
+import { ClientBaseUpdateBuilder, toMergeSetData } from '../baseUpdateBuilder';
+import { ConflictError } from '../optimisticLocking';
+import { enableReadCache, disableReadCache } from '../readCache';
 import type {
   Firestore,
   DocumentReference,
@@ -11,6 +13,8 @@ import type {
 // Import client functions that are mocked
 import {
   updateDoc,
+  setDoc,
+  runTransaction,
   serverTimestamp,
   deleteField,
   increment,
@@ -32,6 +36,8 @@ jest.mock('firebase/firestore', () => ({
   // Keep original exports if needed, or mock specific ones
   ...(jest.requireActual('firebase/firestore')), // Keep actual implementations for types etc.
   updateDoc: jest.fn(),
+  setDoc: jest.fn(),
+  runTransaction: jest.fn(),
   serverTimestamp: jest.fn(() => MOCK_SERVER_TIMESTAMP),
   deleteField: jest.fn(() => MOCK_DELETE_SENTINEL),
   increment: jest.fn((val: number) => ({ ...MOCK_INCREMENT_SENTINEL, value: val })),
@@ -167,6 +173,159 @@ describe('ClientBaseUpdateBuilder', () => {
 
       expect(updateDoc).not.toHaveBeenCalled();
     });
+
+    it('should call setDoc() with nested merge data in upsert mode', async () => {
+      const builder = (updateBuilder as any)
+        ._set('name', 'Upserted')
+        ._set('nested.value', 'deep')
+        ._increment('count', 2)
+        ._deleteField('tags');
+
+      await builder.commit({ mode: 'upsert' });
+
+      expect(updateDoc).not.toHaveBeenCalled();
+      expect(setDoc).toHaveBeenCalledWith(
+        mockDocRef,
+        {
+          name: 'Upserted',
+          nested: { value: 'deep' },
+          count: { ...MOCK_INCREMENT_SENTINEL, value: 2 },
+          tags: MOCK_DELETE_SENTINEL,
+        },
+        { merge: true }
+      );
+    });
+
+    it('should invalidate cached reads of the document\'s collection after committing', async () => {
+      const firestore = {} as any;
+      const cache = enableReadCache(firestore);
+      const invalidate = jest.spyOn(cache, 'invalidateCollection');
+      const docRef = { firestore, parent: { path: 'users' } } as any;
+
+      await new ClientBaseUpdateBuilder<TestData>(docRef)._set('name', 'New').commit();
+
+      expect(invalidate).toHaveBeenCalledWith('users');
+      disableReadCache(firestore);
+    });
+  });
+
+  describe('commit() with optimistic locking', () => {
+    const transaction = { get: jest.fn(), update: jest.fn(), set: jest.fn() };
+    const lockedDocRef = { path: 'items/a' } as any;
+    const lockedBuilder = () =>
+      new ClientBaseUpdateBuilder<TestData>(lockedDocRef, { optimisticLocking: { strategy: 'version', field: 'rev' } });
+
+    beforeEach(() => {
+      (runTransaction as jest.Mock).mockImplementation(async (_firestore, fn) => fn(transaction));
+      transaction.get.mockResolvedValue({ exists: () => true, get: () => 7 });
+    });
+
+    it('should require ifMatch()', async () => {
+      await expect((lockedBuilder() as any)._set('name', 'X').commit())
+        .rejects.toThrow("Updates to 'items/a' require ifMatch() with the lock value read from the document.");
+    });
+
+    it('should update with the bumped version when the lock matches', async () => {
+      await (lockedBuilder() as any)._set('name', 'X').ifMatch(7).commit();
+
+      expect(updateDoc).not.toHaveBeenCalled();
+      expect(transaction.update).toHaveBeenCalledWith(lockedDocRef, { name: 'X', rev: 8 });
+    });
+
+    it('should upsert with the bumped version in upsert mode', async () => {
+      await (lockedBuilder() as any)._set('nested.value', 'X').ifMatch(7).commit({ mode: 'upsert' });
+
+      expect(transaction.set).toHaveBeenCalledWith(lockedDocRef, { nested: { value: 'X' }, rev: 8 }, { merge: true });
+    });
+
+    it('should fail with a ConflictError when the lock changed', async () => {
+      await expect((lockedBuilder() as any)._set('name', 'X').ifMatch(6).commit()).rejects.toThrow(ConflictError);
+      expect(transaction.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('applyDiff()', () => {
+    it('should accumulate only the changes between the original and modified objects', () => {
+      const builder = updateBuilder.applyDiff(
+        { name: 'Old', tags: ['a'], nested: { value: 'same' }, count: 1 },
+        { name: 'New', tags: ['a', 'b'], nested: { value: 'same' } },
+        { arrayOps: true }
+      );
+
+      expect(builder.updateData).toEqual({
+        name: 'New',
+        tags: { ...MOCK_ARRAY_UNION_SENTINEL, elements: ['b'] },
+        count: MOCK_DELETE_SENTINEL,
+      });
+      expect(builder).not.toBe(updateBuilder);
+    });
+  });
+
+  describe('commit() with managed timestamps', () => {
+    it('should set updatedAt and drop createdAt on every commit', async () => {
+      const builder = new ClientBaseUpdateBuilder<TestData>(mockDocRef, { timestamps: { createdAt: 'createdAt', updatedAt: 'lastUpdated' } });
+
+      await (builder as any)._set('name', 'X')._set('createdAt', 'forged').commit();
+
+      expect(updateDoc).toHaveBeenCalledWith(mockDocRef, { name: 'X', lastUpdated: MOCK_SERVER_TIMESTAMP });
+    });
+
+    it('should still skip commits without changes', async () => {
+      await new ClientBaseUpdateBuilder<TestData>(mockDocRef, { timestamps: { updatedAt: 'lastUpdated' } }).commit();
+
+      expect(updateDoc).not.toHaveBeenCalled();
+    });
+
+    it('should set createdAt only when an upsert creates the document', async () => {
+      const transaction = { get: jest.fn(), set: jest.fn() };
+      (runTransaction as jest.Mock).mockImplementation(async (_firestore, fn) => fn(transaction));
+      const builder = (new ClientBaseUpdateBuilder<TestData>(mockDocRef, { timestamps: { createdAt: 'createdAt', updatedAt: 'lastUpdated' } }) as any)._set('name', 'X');
+
+      transaction.get.mockResolvedValueOnce({ exists: () => false });
+      await builder.commit({ mode: 'upsert' });
+      transaction.get.mockResolvedValueOnce({ exists: () => true });
+      await builder.commit({ mode: 'upsert' });
+
+      expect(setDoc).not.toHaveBeenCalled();
+      expect(transaction.set).toHaveBeenNthCalledWith(1, mockDocRef,
+        { name: 'X', createdAt: MOCK_SERVER_TIMESTAMP, lastUpdated: MOCK_SERVER_TIMESTAMP }, { merge: true });
+      expect(transaction.set).toHaveBeenNthCalledWith(2, mockDocRef, { name: 'X', lastUpdated: MOCK_SERVER_TIMESTAMP }, { merge: true });
+    });
+
+    it('should write the soft-delete marker only when an upsert creates the document', async () => {
+      const transaction = { get: jest.fn(), set: jest.fn() };
+      (runTransaction as jest.Mock).mockImplementation(async (_firestore, fn) => fn(transaction));
+      const builder = (new ClientBaseUpdateBuilder<TestData>(mockDocRef, { softDelete: {} }) as any)._set('name', 'X');
+
+      transaction.get.mockResolvedValueOnce({ exists: () => false });
+      await builder.commit({ mode: 'upsert' });
+      transaction.get.mockResolvedValueOnce({ exists: () => true });
+      await builder.commit({ mode: 'upsert' });
+      await builder.commit();
+
+      expect(transaction.set).toHaveBeenNthCalledWith(1, mockDocRef, { deletedAt: null, name: 'X' }, { merge: true });
+      expect(transaction.set).toHaveBeenNthCalledWith(2, mockDocRef, { name: 'X' }, { merge: true });
+      expect(updateDoc).toHaveBeenCalledWith(mockDocRef, { name: 'X' });
+    });
+  });
+
+  describe('toMergeSetData()', () => {
+    it('should nest dot-notation paths, sharing parent maps', () => {
+      expect(toMergeSetData({ 'a.b.c': 1, 'a.b.d': MOCK_SERVER_TIMESTAMP, 'a.e': [1], f: null })).toEqual({
+        a: { b: { c: 1, d: MOCK_SERVER_TIMESTAMP }, e: [1] },
+        f: null,
+      });
+    });
+
+    it('should reject paths that overlap', () => {
+      expect(() => toMergeSetData({ address: {}, 'address.city': 'X' }))
+        .toThrow("Conflicting update paths 'address' and 'address.city'.");
+    });
+
+    it('should reject overlapping paths that do not sort next to each other', () => {
+      expect(() => toMergeSetData({ 'a.b': 1, 'a.b-x': 2, 'a.b.c': 3 }))
+        .toThrow("Conflicting update paths 'a.b' and 'a.b.c'.");
+    });
   });
 
   // --- Test Chaining ---
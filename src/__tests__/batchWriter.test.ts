@@ -0,0 +1,215 @@
+import { ClientBatchWriter, MAX_BATCH_SIZE } from '../batchWriter';
+import { ClientBaseCollectionRef } from '../baseCollection';
+import { ClientBaseUpdateBuilder } from '../baseUpdateBuilder';
+import { ValidationError } from '../validation';
+import { enableReadCache, disableReadCache } from '../readCache';
+
+// Import client functions that are mocked
+import { doc, writeBatch } from 'firebase/firestore';
+
+// --- Mocks ---
+
+const MOCK_SERVER_TIMESTAMP = { type: 'serverTimestamp' } as any;
+
+jest.mock('firebase/firestore', () => ({
+  ...(jest.requireActual('firebase/firestore')), // Keep actual implementations for types etc.
+  collection: jest.fn(() => ({ id: 'items', path: 'items' })),
+  doc: jest.fn((ref: any, id?: string) => ({ id: id ?? 'auto-id', path: `${ref.path}/${id ?? 'auto-id'}` })),
+  writeBatch: jest.fn(),
+  serverTimestamp: jest.fn(() => MOCK_SERVER_TIMESTAMP),
+}));
+
+// Mock types for testing
+interface TestData {
+  name: string;
+  createdAt?: any;
+}
+type TestAddData = TestData;
+
+const createMockBatch = () => ({
+  set: jest.fn(),
+  update: jest.fn(),
+  delete: jest.fn(),
+  commit: jest.fn().mockResolvedValue(undefined),
+});
+
+// --- Test Suite ---
+
+describe('ClientBatchWriter', () => {
+  let batches: ReturnType<typeof createMockBatch>[];
+  let collectionRef: ClientBaseCollectionRef<TestData, TestAddData>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    batches = [];
+    (writeBatch as jest.Mock).mockImplementation(() => {
+      const batch = createMockBatch();
+      batches.push(batch);
+      return batch;
+    });
+    collectionRef = new ClientBaseCollectionRef<TestData, TestAddData>(
+      {} as any,
+      'items',
+      { fields: { name: { type: 'string', required: true }, createdAt: { defaultValue: 'serverTimestamp' } } }
+    );
+  });
+
+  it('should queue add/set/update/delete with defaults and commit in one batch', async () => {
+    const writer = new ClientBatchWriter({} as any);
+    const addedRef = writer.add(collectionRef, { name: 'A' });
+    writer
+      .set(collectionRef, 'b', { name: 'B' })
+      .update(new ClientBaseUpdateBuilder<TestData>(collectionRef.doc('c'))._set('name', 'C'))
+      .delete(collectionRef, 'd');
+
+    expect(addedRef).toEqual({ id: 'auto-id', path: 'items/auto-id' });
+    expect(doc).toHaveBeenCalledWith(collectionRef.ref);
+    expect(writer.size).toBe(4);
+
+    const result = await writer.commit();
+
+    expect(batches).toHaveLength(1);
+    const [batch] = batches;
+    expect(batch.set).toHaveBeenCalledWith(addedRef, { name: 'A', createdAt: MOCK_SERVER_TIMESTAMP });
+    expect(batch.set).toHaveBeenCalledWith({ id: 'b', path: 'items/b' }, { name: 'B', createdAt: MOCK_SERVER_TIMESTAMP }, {});
+    expect(batch.update).toHaveBeenCalledWith({ id: 'c', path: 'items/c' }, { name: 'C' });
+    expect(batch.delete).toHaveBeenCalledWith({ id: 'd', path: 'items/d' });
+    expect(result).toEqual({
+      chunks: [{ index: 0, operations: expect.any(Array), success: true }],
+      successCount: 4,
+      failureCount: 0,
+    });
+    expect(writer.size).toBe(0);
+  });
+
+  it('should reject invalid data when queued', () => {
+    const writer = new ClientBatchWriter({} as any);
+    expect(() => writer.set(collectionRef, 'x', { name: 1 } as any)).toThrow(ValidationError);
+    expect(writer.size).toBe(0);
+  });
+
+  it('should reject writes that need an optimistic lock check', () => {
+    const locking = { strategy: 'version' as const };
+    const lockedRef = new ClientBaseCollectionRef<any, any>({} as any, 'items', { fields: {}, optimisticLocking: locking });
+    const writer = new ClientBatchWriter({} as any);
+
+    expect(() => writer.set(lockedRef, 'a', { name: 'A', version: 1 })).toThrow(`Cannot batch a set of 'items/a'`);
+    expect(() => writer.update(new ClientBaseUpdateBuilder<any>(lockedRef.doc('a'), { optimisticLocking: locking })._set('name', 'B').ifMatch(1)))
+      .toThrow(`Cannot batch an update of 'items/a'`);
+    expect(writer.size).toBe(0);
+  });
+
+  it('should add with random ID strategies and reject strategies that need a collision check', () => {
+    const refWith = (idGeneration: any) => new ClientBaseCollectionRef<any, any>({} as any, 'items', { fields: {}, idGeneration });
+    const writer = new ClientBatchWriter({} as any);
+
+    expect(writer.add(refWith({ strategy: 'ulid' }), { name: 'A' }).id).toMatch(/^[0-9A-Z]{26}$/);
+    expect(writer.add(refWith({ strategy: 'uuidv7' }), { name: 'B' }).id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-7/);
+    expect(() => writer.add(refWith({ strategy: 'fields', fields: ['name'] }), { name: 'C' }))
+      .toThrow(`Collection 'items' uses the 'fields' ID strategy, whose IDs need a read to check for collisions. Use add() or create().`);
+    expect(writer.size).toBe(2);
+  });
+
+  it('should reject soft deletes and merge sets that need a read, but allow purges', async () => {
+    const softRef = new ClientBaseCollectionRef<any, any>({} as any, 'items', { fields: {}, softDelete: {} });
+    const writer = new ClientBatchWriter({} as any);
+
+    expect(() => writer.delete(softRef, 'a')).toThrow(`Cannot batch a delete of 'items/a'`);
+    expect(() => writer.set(softRef, 'a', { name: 'A' }, { merge: true })).toThrow(`Cannot batch a merge set of 'items/a'`);
+    writer.set(softRef, 'b', { name: 'B' }).purge(softRef, 'c');
+    await writer.commit();
+
+    expect(batches[0].set).toHaveBeenCalledWith({ id: 'b', path: 'items/b' }, { deletedAt: null, name: 'B' }, {});
+    expect(batches[0].delete).toHaveBeenCalledWith({ id: 'c', path: 'items/c' });
+  });
+
+  it('should split operations into chunks of at most 500', async () => {
+    const writer = new ClientBatchWriter({} as any);
+    for (let i = 0; i < MAX_BATCH_SIZE + 20; i++) {
+      writer.delete(collectionRef, `doc-${i}`);
+    }
+
+    const result = await writer.commit();
+
+    expect(batches).toHaveLength(2);
+    expect(batches[0].delete).toHaveBeenCalledTimes(MAX_BATCH_SIZE);
+    expect(batches[1].delete).toHaveBeenCalledTimes(20);
+    expect(result.chunks.map(c => c.operations.length)).toEqual([MAX_BATCH_SIZE, 20]);
+    expect(result.successCount).toBe(MAX_BATCH_SIZE + 20);
+  });
+
+  it('should report failed chunks and keep committing the rest', async () => {
+    const failure = new Error('permission-denied');
+    (writeBatch as jest.Mock).mockImplementation(() => {
+      const batch = createMockBatch();
+      if (batches.length === 0) batch.commit.mockRejectedValue(failure);
+      batches.push(batch);
+      return batch;
+    });
+    const writer = new ClientBatchWriter({} as any, { maxBatchSize: 2 });
+    ['a', 'b', 'c'].forEach(id => writer.delete(collectionRef, id));
+
+    const result = await writer.commit();
+
+    expect(result.chunks[0]).toMatchObject({ index: 0, success: false, error: failure });
+    expect(result.chunks[0].operations.map(op => op.ref.id)).toEqual(['a', 'b']);
+    expect(result.chunks[1]).toMatchObject({ index: 1, success: true });
+    expect(result.failureCount).toBe(2);
+    expect(result.successCount).toBe(1);
+  });
+
+  it('should invalidate cached reads of the collections written by committed chunks', async () => {
+    const firestore = {} as any;
+    const cache = enableReadCache(firestore);
+    const invalidate = jest.spyOn(cache, 'invalidateCollection');
+    (doc as jest.Mock).mockImplementation((ref: any, id: string) => ({ id, path: `${ref.path}/${id}`, parent: ref }));
+    const writer = new ClientBatchWriter(firestore, { maxBatchSize: 1 });
+    const otherDocRef = { id: 'b', path: 'others/b', parent: { path: 'others' } } as any;
+    writer.delete(collectionRef, 'a').update(new ClientBaseUpdateBuilder<any>(otherDocRef)._set('name', 'B'));
+    (writeBatch as jest.Mock)
+      .mockImplementationOnce(() => createMockBatch())
+      .mockImplementationOnce(() => ({ ...createMockBatch(), commit: jest.fn().mockRejectedValue(new Error('denied')) }));
+
+    await writer.commit();
+
+    expect(invalidate).toHaveBeenCalledTimes(1);
+    expect(invalidate).toHaveBeenCalledWith('items');
+    disableReadCache(firestore);
+  });
+
+  it('should report a chunk as failed when queuing a write into the batch throws', async () => {
+    const failure = new Error('Unsupported field value: undefined');
+    (writeBatch as jest.Mock).mockImplementation(() => {
+      const batch = createMockBatch();
+      if (batches.length === 0) batch.set.mockImplementation(() => { throw failure; });
+      batches.push(batch);
+      return batch;
+    });
+    const writer = new ClientBatchWriter({} as any, { maxBatchSize: 1 });
+    writer.set(collectionRef, 'a', { name: 'A' }).delete(collectionRef, 'b');
+
+    const result = await writer.commit();
+
+    expect(batches[0].commit).not.toHaveBeenCalled();
+    expect(result.chunks[0]).toMatchObject({ index: 0, success: false, error: failure });
+    expect(result.chunks[0].operations.map(op => op.ref.id)).toEqual(['a']);
+    expect(result.chunks[1]).toMatchObject({ index: 1, success: true });
+  });
+
+  it('should skip remaining chunks after a failure when stopOnError is set', async () => {
+    (writeBatch as jest.Mock).mockImplementation(() => {
+      const batch = createMockBatch();
+      batch.commit.mockRejectedValue(new Error('unavailable'));
+      batches.push(batch);
+      return batch;
+    });
+    const writer = new ClientBatchWriter({} as any, { maxBatchSize: 1, stopOnError: true });
+    ['a', 'b'].forEach(id => writer.delete(collectionRef, id));
+
+    const result = await writer.commit();
+
+    expect(batches).toHaveLength(1);
+    expect(result.chunks[1]).toMatchObject({ index: 1, success: false, skipped: true });
+    expect(result.failureCount).toBe(2);
+  });
+});
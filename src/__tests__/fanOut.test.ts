@@ -0,0 +1,96 @@
+import { planFanOut, mergeFanOutResults, MAX_DISJUNCTION_VALUES, MAX_NOT_IN_VALUES } from '../fanOut';
+import type { QueryConstraintDefinition } from '../baseQueryBuilder';
+
+// Helpers for building envelopes
+const envelope = (id: string, data: any) => ({
+  id,
+  ref: { id, path: `items/${id}` } as any,
+  data,
+  exists: true as const,
+  fromCache: false,
+  hasPendingWrites: false,
+});
+
+const range = (count: number) => Array.from({ length: count }, (_, i) => i);
+
+// --- Test Suite ---
+
+describe('planFanOut()', () => {
+  it('should return undefined when every filter is within the limits', () => {
+    const definitions: QueryConstraintDefinition[] = [
+      { type: 'where', fieldPath: 'n', opStr: 'in', value: range(MAX_DISJUNCTION_VALUES) },
+      { type: 'where', fieldPath: 'm', opStr: 'not-in', value: range(MAX_NOT_IN_VALUES) },
+    ];
+    expect(planFanOut(definitions)).toBeUndefined();
+  });
+
+  it('should split an oversized in filter into chunks, keeping other constraints', () => {
+    const definitions: QueryConstraintDefinition[] = [
+      { type: 'where', fieldPath: 'active', opStr: '==', value: true },
+      { type: 'where', fieldPath: 'n', opStr: 'in', value: range(65) },
+      { type: 'orderBy', fieldPath: 'n', directionStr: 'desc' },
+      { type: 'limit', limitCount: 10 },
+    ];
+
+    const plan = planFanOut(definitions)!;
+
+    expect(plan.queries).toHaveLength(3);
+    expect(plan.queries.map(q => (q[1] as any).value.length)).toEqual([30, 30, 5]);
+    expect(plan.queries[2][0]).toBe(definitions[0]);
+    expect(plan.queries[2][3]).toEqual({ type: 'limit', limitCount: 10 });
+    expect(plan.orderBys).toEqual([definitions[2]]);
+    expect(plan.limit).toBe(definitions[3]);
+  });
+
+  it('should keep the first not-in values on the server and check the rest on the client', () => {
+    const definitions: QueryConstraintDefinition[] = [
+      { type: 'where', fieldPath: 'n', opStr: 'not-in', value: range(12) },
+      { type: 'limit', limitCount: 5 },
+    ];
+
+    const plan = planFanOut(definitions)!;
+
+    expect(plan.queries).toEqual([[{ type: 'where', fieldPath: 'n', opStr: 'not-in', value: range(10) }]]);
+    expect(plan.clientExclusions).toEqual([{ fieldPath: 'n', values: [10, 11] }]);
+    expect(plan.limit).toEqual({ type: 'limit', limitCount: 5 });
+  });
+
+  it('should refuse to fan out two oversized disjunctions', () => {
+    expect(() => planFanOut([
+      { type: 'where', fieldPath: 'a', opStr: 'in', value: range(31) },
+      { type: 'where', fieldPath: 'b', opStr: 'array-contains-any', value: range(31) },
+    ])).toThrow("Cannot fan out more than one oversized 'in'/'array-contains-any' filter (fields: a, b).");
+  });
+});
+
+describe('mergeFanOutResults()', () => {
+  it('should de-duplicate, re-sort and re-apply the limit', () => {
+    const plan = planFanOut([
+      { type: 'where', fieldPath: 'tags', opStr: 'array-contains-any', value: range(40) },
+      { type: 'orderBy', fieldPath: 'rank', directionStr: 'desc' },
+      { type: 'limit', limitCount: 3 },
+    ])!;
+
+    const merged = mergeFanOutResults(plan, [
+      [envelope('a', { rank: 5 }), envelope('b', { rank: 3 })],
+      [envelope('c', { rank: 4 }), envelope('a', { rank: 5 }), envelope('d', { rank: 3 })],
+    ]);
+
+    // Equal ranks tie-break by document ID in the last orderBy direction
+    expect(merged.map(doc => doc.id)).toEqual(['a', 'c', 'd']);
+  });
+
+  it('should apply client-side exclusions before limitToLast', () => {
+    const plan = planFanOut([
+      { type: 'where', fieldPath: 'n', opStr: 'not-in', value: range(12) },
+      { type: 'orderBy', fieldPath: 'n', directionStr: 'asc' },
+      { type: 'limitToLast', limitCount: 2 },
+    ])!;
+
+    const merged = mergeFanOutResults(plan, [
+      [envelope('x', { n: 10 }), envelope('y', { n: 20 }), envelope('z', { n: 30 }), envelope('w', { n: 11 })],
+    ]);
+
+    expect(merged.map(doc => doc.id)).toEqual(['y', 'z']);
+  });
+});
@@ -0,0 +1,68 @@
+import { compareValues, compareDocumentPaths, valuesEqual, getFieldValue } from '../firestoreOrdering';
+import { Timestamp, GeoPoint, Bytes, doc, getFirestore } from 'firebase/firestore';
+import { initializeApp } from 'firebase/app';
+
+// --- Test Suite ---
+
+describe('compareValues()', () => {
+  const firestore = getFirestore(initializeApp({ projectId: 'ordering-test' }, 'ordering-test'));
+
+  it('should order values of different types by Firestore type order', () => {
+    const ordered = [
+      null,
+      false,
+      NaN,
+      -1,
+      new Timestamp(0, 0),
+      'a',
+      Bytes.fromBase64String('AA=='),
+      doc(firestore, 'a/b'),
+      new GeoPoint(0, 0),
+      [1],
+      { a: 1 },
+    ];
+    const shuffled = [...ordered].reverse();
+    expect(shuffled.sort(compareValues)).toEqual(ordered);
+  });
+
+  it('should compare values within each type', () => {
+    expect(compareValues(false, true)).toBe(-1);
+    expect(compareValues(2, 10)).toBe(-1);
+    expect(compareValues(NaN, -Infinity)).toBe(-1);
+    expect(compareValues(NaN, NaN)).toBe(0);
+    expect(compareValues(new Timestamp(1, 5), new Timestamp(1, 2))).toBe(1);
+    expect(compareValues(new Date(1000), new Timestamp(1, 0))).toBe(0);
+    expect(compareValues('B', 'a')).toBe(-1);
+    expect(compareValues(new GeoPoint(1, 2), new GeoPoint(1, 3))).toBe(-1);
+    expect(compareValues([1, 2], [1, 2, 0])).toBe(-1);
+    expect(compareValues([2], [1, 5])).toBe(1);
+    expect(compareValues({ a: 1, b: 2 }, { a: 1, c: 0 })).toBe(-1);
+  });
+
+  it('should compare strings by code point rather than UTF-16 code unit', () => {
+    // U+FF5E is a single UTF-16 unit above the surrogate range; U+1F600 is a surrogate pair
+    expect('～' < '\u{1F600}').toBe(false);
+    expect(compareValues('～', '\u{1F600}')).toBe(-1);
+  });
+
+  it('should treat equal values as equal', () => {
+    expect(valuesEqual(1, 1.0)).toBe(true);
+    expect(valuesEqual({ x: [1, 'a'] }, { x: [1, 'a'] })).toBe(true);
+    expect(valuesEqual(1, '1')).toBe(false);
+  });
+});
+
+describe('compareDocumentPaths()', () => {
+  it('should compare paths segment by segment', () => {
+    expect(compareDocumentPaths('a/b', 'a/c')).toBe(-1);
+    expect(compareDocumentPaths('a/b/c/d', 'a/b')).toBe(1);
+    expect(compareDocumentPaths('a-b/x', 'a/x')).toBe(1);
+  });
+});
+
+describe('getFieldValue()', () => {
+  it('should read nested fields by dot path', () => {
+    expect(getFieldValue({ a: { b: { c: 3 } } }, 'a.b.c')).toBe(3);
+    expect(getFieldValue({ a: 1 }, 'a.b')).toBeUndefined();
+  });
+});
@@ -0,0 +1,83 @@
+import {
+  generateUlid,
+  generateUuidV7,
+  slugify,
+  validateDocumentId,
+  withIdSuffix,
+  generateDocumentId,
+  isDeterministicIdStrategy,
+} from '../idGeneration';
+
+// --- Test Suite ---
+
+describe('generateUlid()', () => {
+  it('should produce 26 Crockford base32 characters starting with the encoded time', () => {
+    const id = generateUlid(1469918176385);
+    expect(id).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+    expect(id.slice(0, 10)).toBe('01ARYZ6S41');
+  });
+
+  it('should sort by creation time', () => {
+    expect(generateUlid(1000) < generateUlid(2000)).toBe(true);
+  });
+
+  it('should fail clearly without the Web Crypto API', () => {
+    const crypto = Object.getOwnPropertyDescriptor(globalThis, 'crypto');
+    Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+    try {
+      expect(() => generateUlid()).toThrow(`The 'ulid' and 'uuidv7' ID strategies need the Web Crypto API`);
+    } finally {
+      Object.defineProperty(globalThis, 'crypto', crypto!);
+    }
+  });
+});
+
+describe('generateUuidV7()', () => {
+  it('should produce a version 7 UUID with the time in its first 48 bits', () => {
+    const id = generateUuidV7(0x017f22e279b0);
+    expect(id).toMatch(/^017f22e2-79b0-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+});
+
+describe('slugify()', () => {
+  it('should lower-case, strip diacritics and join words with dashes', () => {
+    expect(slugify('  Crème Brûlée: The Recipe! ')).toBe('creme-brulee-the-recipe');
+  });
+});
+
+describe('validateDocumentId()', () => {
+  it('should reject IDs Firestore does not accept', () => {
+    ['', 'a/b', '.', '..', '__id__'].forEach(id => expect(() => validateDocumentId(id)).toThrow('Invalid generated document ID'));
+    expect(() => validateDocumentId('ok-id')).not.toThrow();
+  });
+});
+
+describe('withIdSuffix()', () => {
+  it('should keep the first candidate unsuffixed', () => {
+    expect([0, 1, 2].map(attempt => withIdSuffix('post', attempt))).toEqual(['post', 'post-2', 'post-3']);
+  });
+});
+
+describe('generateDocumentId()', () => {
+  it('should derive IDs from the slugs of the configured fields', async () => {
+    const config = { strategy: 'fields' as const, fields: ['team', 'name'] };
+    await expect(generateDocumentId(config, { team: 'Core', name: 'Ada Lovelace' })).resolves.toBe('core-ada-lovelace');
+    await expect(generateDocumentId({ ...config, separator: '_' }, { team: 'Core', name: 1 })).resolves.toBe('core_1');
+  });
+
+  it('should reject missing or unusable field values', async () => {
+    const config = { strategy: 'fields' as const, fields: ['name'] };
+    await expect(generateDocumentId(config, {})).rejects.toThrow(`Cannot derive a document ID from field 'name': expected a string or number.`);
+    await expect(generateDocumentId(config, { name: '!!' })).rejects.toThrow('it has no letters or digits');
+  });
+
+  it('should call custom generators and validate their IDs', async () => {
+    await expect(generateDocumentId({ strategy: 'custom', generate: data => `user-${data.n}` }, { n: 7 })).resolves.toBe('user-7');
+    await expect(generateDocumentId({ strategy: 'custom', generate: async () => 'a/b' }, {})).rejects.toThrow(`Invalid generated document ID 'a/b'.`);
+  });
+
+  it('should only check collisions for deterministic strategies', () => {
+    expect(isDeterministicIdStrategy({ strategy: 'ulid' })).toBe(false);
+    expect(isDeterministicIdStrategy({ strategy: 'fields', fields: ['name'] })).toBe(true);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { Timestamp } from 'firebase/firestore';
+
+import { evaluateQuery } from '../localQuery';
+import { QueryValidationError } from '../queryValidation';
+import type { QueryConstraintDefinition } from '../baseQueryBuilder';
+
+interface Item {
+  id: string;
+  n?: number | string | null;
+  tags?: string[];
+  group?: string;
+  at?: Timestamp;
+}
+
+const items: Item[] = [
+  { id: 'a', n: 3, tags: ['x'], group: 'g1', at: new Timestamp(30, 0) },
+  { id: 'b', n: 1, tags: ['y', 'z'], group: 'g2', at: new Timestamp(10, 0) },
+  { id: 'c', n: 2, tags: [], group: 'g1', at: new Timestamp(20, 0) },
+  { id: 'd', n: 'text', group: 'g2' },
+  { id: 'e', n: null, group: 'g1' },
+  { id: 'f', group: 'g2' },
+  { id: 'g', n: NaN },
+];
+
+const getId = (item: Item) => item.id;
+const run = (definitions: QueryConstraintDefinition[]) => evaluateQuery(definitions, items, { getId }).map(item => item.id);
+
+// --- Test Suite ---
+
+describe('evaluateQuery()', () => {
+  it('should return every document, ordered by ID, without constraints', () => {
+    expect(run([])).toEqual(['a', 'b', 'c', 'd', 'e', 'f', 'g']);
+  });
+
+  it('should keep input order as the tie-break when no getId is given', () => {
+    const reversed = [...items].reverse();
+    expect(evaluateQuery([], reversed).map(item => item.id)).toEqual(['g', 'f', 'e', 'd', 'c', 'b', 'a']);
+  });
+
+  it.each<[string, QueryConstraintDefinition, string[]]>([
+    ['==', { type: 'where', fieldPath: 'n', opStr: '==', value: 2 }, ['c']],
+    ['== null', { type: 'where', fieldPath: 'n', opStr: '==', value: null }, ['e']],
+    ['== NaN', { type: 'where', fieldPath: 'n', opStr: '==', value: NaN }, ['g']],
+    ['!= (excludes missing, null and NaN)', { type: 'where', fieldPath: 'n', opStr: '!=', value: 2 }, ['b', 'a', 'd']],
+    ['< (same type only)', { type: 'where', fieldPath: 'n', opStr: '<', value: 3 }, ['b', 'c']],
+    ['>= strings', { type: 'where', fieldPath: 'n', opStr: '>=', value: 'a' }, ['d']],
+    ['> timestamps', { type: 'where', fieldPath: 'at', opStr: '>', value: new Timestamp(15, 0) }, ['c', 'a']],
+    ['in', { type: 'where', fieldPath: 'n', opStr: 'in', value: [1, 'text', null] }, ['b', 'd', 'e']],
+    ['not-in', { type: 'where', fieldPath: 'n', opStr: 'not-in', value: [1, 2] }, ['a', 'd']],
+    ['array-contains', { type: 'where', fieldPath: 'tags', opStr: 'array-contains', value: 'z' }, ['b']],
+    ['array-contains-any', { type: 'where', fieldPath: 'tags', opStr: 'array-contains-any', value: ['x', 'y'] }, ['a', 'b']],
+  ])('should apply %s filters', (_, filter, expected) => {
+    expect(run([filter])).toEqual(expected);
+  });
+
+  it('should evaluate nested or()/and() groups', () => {
+    expect(run([
+      {
+        type: 'or',
+        filters: [
+          { type: 'where', fieldPath: 'n', opStr: '==', value: 1 },
+          {
+            type: 'and',
+            filters: [
+              { type: 'where', fieldPath: 'group', opStr: '==', value: 'g1' },
+              { type: 'where', fieldPath: 'tags', opStr: '==', value: [] },
+            ],
+          },
+        ],
+      },
+    ])).toEqual(['b', 'c']);
+  });
+
+  it('should sort by multiple orderBy fields across types and drop documents missing them', () => {
+    expect(run([
+      { type: 'orderBy', fieldPath: 'group', directionStr: 'desc' },
+      { type: 'orderBy', fieldPath: 'n', directionStr: 'asc' },
+    ])).toEqual(['b', 'd', 'e', 'c', 'a']);
+  });
+
+  it('should apply cursors against the ordering, including the document ID tie-break', () => {
+    const orderBy: QueryConstraintDefinition = { type: 'orderBy', fieldPath: 'group', directionStr: 'asc' };
+    expect(run([orderBy, { type: 'startAfter', snapshotOrFieldValue: 'g1', fieldValues: ['c'] }])).toEqual(['e', 'b', 'd', 'f']);
+    expect(run([orderBy, { type: 'startAt', snapshotOrFieldValue: 'g2', fieldValues: [] }, { type: 'endBefore', snapshotOrFieldValue: 'g2', fieldValues: ['f'] }]))
+      .toEqual(['b', 'd']);
+    expect(run([orderBy, { type: 'endAt', snapshotOrFieldValue: 'g1', fieldValues: [] }])).toEqual(['a', 'c', 'e']);
+  });
+
+  it('should apply limit and limitToLast after sorting', () => {
+    const orderBy: QueryConstraintDefinition = { type: 'orderBy', fieldPath: 'at', directionStr: 'asc' };
+    expect(run([orderBy, { type: 'limit', limitCount: 2 }])).toEqual(['b', 'c']);
+    expect(run([orderBy, { type: 'limitToLast', limitCount: 2 }])).toEqual(['c', 'a']);
+  });
+
+  it('should filter on the document ID when getId is given', () => {
+    expect(run([{ type: 'where', fieldPath: '__name__', opStr: '>', value: 'e' }])).toEqual(['f', 'g']);
+    expect(() => evaluateQuery([{ type: 'where', fieldPath: '__name__', opStr: '==', value: 'a' }], items))
+      .toThrow("Queries on the document ID need a 'getId' option to evaluate locally.");
+  });
+
+  it('should reject queries Firestore would reject', () => {
+    expect(() => run([{ type: 'limitToLast', limitCount: 1 }])).toThrow(QueryValidationError);
+  });
+});
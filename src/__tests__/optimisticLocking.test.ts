@@ -0,0 +1,54 @@
+import { Timestamp, serverTimestamp } from 'firebase/firestore';
+
+import { checkLock, getLockField, ConflictError } from '../optimisticLocking';
+
+jest.mock('firebase/firestore', () => ({
+  ...(jest.requireActual('firebase/firestore')),
+  serverTimestamp: jest.fn(() => ({ type: 'serverTimestamp' })),
+}));
+
+const docRef = { path: 'items/a' } as any;
+const transactionReading = (data: Record<string, unknown> | undefined) => ({
+  get: jest.fn(async () => ({ exists: () => data !== undefined, get: (field: string) => data?.[field] })),
+}) as any;
+
+// --- Test Suite ---
+
+describe('getLockField()', () => {
+  it('should default the field by strategy', () => {
+    expect(getLockField({ strategy: 'version' })).toBe('version');
+    expect(getLockField({ strategy: 'updateTime' })).toBe('updatedAt');
+    expect(getLockField({ strategy: 'version', field: 'rev' })).toBe('rev');
+  });
+});
+
+describe('checkLock()', () => {
+  it('should return the next version when the lock matches', async () => {
+    const transaction = transactionReading({ version: 3 });
+    expect(await checkLock(transaction, docRef, { strategy: 'version' }, 3)).toEqual({ version: 4 });
+    expect(transaction.get).toHaveBeenCalledWith(docRef);
+  });
+
+  it('should start at version 1 for new documents', async () => {
+    expect(await checkLock(transactionReading(undefined), docRef, { strategy: 'version', field: 'rev' }, undefined)).toEqual({ rev: 1 });
+  });
+
+  it('should compare update times by value and write a server timestamp', async () => {
+    const transaction = transactionReading({ updatedAt: new Timestamp(10, 500) });
+    const result = await checkLock(transaction, docRef, { strategy: 'updateTime' }, new Timestamp(10, 500));
+    expect(result).toEqual({ updatedAt: { type: 'serverTimestamp' } });
+    expect(serverTimestamp).toHaveBeenCalled();
+  });
+
+  it('should throw a ConflictError when the lock value changed', async () => {
+    const promise = checkLock(transactionReading({ version: 5 }), docRef, { strategy: 'version' }, 4);
+
+    await expect(promise).rejects.toThrow(ConflictError);
+    await expect(promise).rejects.toMatchObject({ path: 'items/a', expected: 4, actual: 5 });
+  });
+
+  it('should throw a ConflictError when a document expected to be new exists', async () => {
+    await expect(checkLock(transactionReading({ version: 1 }), docRef, { strategy: 'version' }, undefined))
+      .rejects.toThrow("Document 'items/a' was modified concurrently; reload it and retry.");
+  });
+});
@@ -0,0 +1,133 @@
+import { ClientBaseQueryBuilder } from '../baseQueryBuilder';
+import { ClientQueryPaginator } from '../paginator';
+
+// Import client functions that are mocked
+import { orderBy, limit, limitToLast, startAfter, endBefore, getDocs } from 'firebase/firestore';
+
+// --- Mocks ---
+
+jest.mock('firebase/firestore', () => ({
+  ...(jest.requireActual('firebase/firestore')), // Keep actual types etc.
+  query: jest.fn((ref, ...constraints) => ({ ref, constraints })),
+  where: jest.fn((...args) => ({ __type: 'whereConstraint', args })),
+  orderBy: jest.fn((...args) => ({ __type: 'orderByConstraint', args })),
+  limit: jest.fn((...args) => ({ __type: 'limitConstraint', args })),
+  limitToLast: jest.fn((...args) => ({ __type: 'limitToLastConstraint', args })),
+  startAfter: jest.fn((...args) => ({ __type: 'startAfterConstraint', args })),
+  endBefore: jest.fn((...args) => ({ __type: 'endBeforeConstraint', args })),
+  getDocs: jest.fn(),
+}));
+
+// Mock types for testing
+interface TestData {
+  name: string;
+  rank: number;
+}
+
+const mockDoc = (id: string, data: TestData) => ({
+  id,
+  ref: { id, path: `items/${id}` },
+  data: () => data,
+  metadata: { fromCache: false, hasPendingWrites: false },
+});
+
+const mockResults = (...docs: ReturnType<typeof mockDoc>[]) =>
+  (getDocs as jest.Mock).mockResolvedValueOnce({ docs });
+
+// --- Test Suite ---
+
+describe('ClientQueryPaginator', () => {
+  let builder: ClientBaseQueryBuilder<TestData>;
+  const mockCollectionRef = { id: 'items', path: 'items', type: 'collection' } as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    builder = new ClientBaseQueryBuilder<TestData>({} as any, mockCollectionRef).orderBy('rank', 'desc');
+  });
+
+  it('should be created by paginate() and append a document ID tie-breaker', async () => {
+    const paginator = builder.paginate(2);
+    expect(paginator).toBeInstanceOf(ClientQueryPaginator);
+
+    mockResults(mockDoc('a', { name: 'A', rank: 3 }));
+    await paginator.next();
+
+    expect(orderBy).toHaveBeenCalledWith('rank', 'desc');
+    expect(orderBy).toHaveBeenCalledWith('__name__', 'desc');
+    expect(limit).toHaveBeenCalledWith(3);
+  });
+
+  it('should reject builders that already have limits or cursors', () => {
+    expect(() => builder.limit(5).paginate(2)).toThrow("Cannot paginate a query with a 'limit' constraint");
+    expect(() => builder.paginate(0)).toThrow('Invalid page size: 0');
+  });
+
+  it('should order by the inequality field first when no orderBy was given', async () => {
+    const filtered = (new ClientBaseQueryBuilder<TestData>({} as any, mockCollectionRef) as any)._where('rank', '>', 1);
+    mockResults();
+    await filtered.paginate(5).next();
+
+    expect((orderBy as jest.Mock).mock.calls).toEqual([['rank', 'asc'], ['__name__', 'asc']]);
+  });
+
+  it('should page forward and backward using the cursor documents', async () => {
+    const paginator = builder.paginate(2);
+
+    mockResults(mockDoc('a', { name: 'A', rank: 9 }), mockDoc('b', { name: 'B', rank: 8 }), mockDoc('c', { name: 'C', rank: 7 }));
+    const first = await paginator.next();
+    expect(first.items.map(item => item.id)).toEqual(['a', 'b']);
+    expect(first.hasNext).toBe(true);
+    expect(first.hasPrevious).toBe(false);
+    expect(first.previousPageToken).toBeNull();
+
+    mockResults(mockDoc('c', { name: 'C', rank: 7 }));
+    const second = await paginator.next();
+    expect(startAfter).toHaveBeenCalledWith(8, 'b');
+    expect(second.items.map(item => item.id)).toEqual(['c']);
+    expect(second.hasNext).toBe(false);
+    expect(second.hasPrevious).toBe(true);
+    expect(paginator.hasNext).toBe(false);
+    await expect(paginator.next()).rejects.toThrow('There is no next page.');
+
+    mockResults(mockDoc('a', { name: 'A', rank: 9 }), mockDoc('b', { name: 'B', rank: 8 }));
+    const back = await paginator.previous();
+    expect(endBefore).toHaveBeenCalledWith(7, 'c');
+    expect(limitToLast).toHaveBeenCalledWith(3);
+    expect(back.items.map(item => item.id)).toEqual(['a', 'b']);
+    expect(back.hasPrevious).toBe(false);
+    expect(back.hasNext).toBe(true);
+  });
+
+  it('should resume from a persisted token in a new paginator', async () => {
+    mockResults(mockDoc('a', { name: 'A', rank: 9 }), mockDoc('b', { name: 'B', rank: 8 }), mockDoc('c', { name: 'C', rank: 7 }));
+    const first = await builder.paginate(2).fetch();
+    const token = first.nextPageToken!;
+    expect(typeof token).toBe('string');
+
+    mockResults(mockDoc('c', { name: 'C', rank: 7 }));
+    const resumed = await builder.paginate(2).fetch(token);
+    expect(startAfter).toHaveBeenLastCalledWith(8, 'b');
+    expect(resumed.items.map(item => item.id)).toEqual(['c']);
+  });
+
+  it('should reject tokens created for a different ordering', async () => {
+    mockResults(mockDoc('a', { name: 'A', rank: 9 }), mockDoc('b', { name: 'B', rank: 8 }), mockDoc('c', { name: 'C', rank: 7 }));
+    const { nextPageToken } = await builder.paginate(2).fetch();
+
+    const other = new ClientBaseQueryBuilder<TestData>({} as any, mockCollectionRef).orderBy('name').paginate(2);
+    await expect(other.fetch(nextPageToken)).rejects.toThrow('not created for this query ordering');
+    await expect(other.fetch('%%%')).rejects.toThrow('Invalid page token.');
+  });
+
+  it('should use full document paths as cursors for collection group queries', async () => {
+    const groupBuilder = new ClientBaseQueryBuilder<TestData>({} as any, { type: 'query' } as any);
+    const paginator = groupBuilder.paginate(1);
+
+    mockResults(mockDoc('a', { name: 'A', rank: 1 }), mockDoc('b', { name: 'B', rank: 2 }));
+    await paginator.next();
+    mockResults(mockDoc('b', { name: 'B', rank: 2 }));
+    await paginator.next();
+
+    expect(startAfter).toHaveBeenCalledWith('items/a');
+  });
+});
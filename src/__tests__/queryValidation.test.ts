@@ -0,0 +1,81 @@
+import { validateQueryConstraints, QueryValidationError, getInequalityFieldPaths } from '../queryValidation';
+import type { QueryConstraintDefinition } from '../baseQueryBuilder';
+
+// Helper to capture the thrown error
+const validationErrorFor = (definitions: QueryConstraintDefinition[]): QueryValidationError => {
+  try {
+    validateQueryConstraints(definitions);
+  } catch (error) {
+    return error as QueryValidationError;
+  }
+  throw new Error('Expected validation to fail');
+};
+
+// --- Test Suite ---
+
+describe('validateQueryConstraints()', () => {
+  it('should accept valid queries', () => {
+    expect(() => validateQueryConstraints([
+      { type: 'where', fieldPath: 'age', opStr: '>=', value: 18 },
+      { type: 'where', fieldPath: 'status', opStr: 'in', value: ['a', 'b'] },
+      { type: 'orderBy', fieldPath: 'age', directionStr: 'asc' },
+      { type: 'orderBy', fieldPath: 'name', directionStr: 'asc' },
+      { type: 'startAfter', snapshotOrFieldValue: 18, fieldValues: ['Bob', 'doc-id'] },
+      { type: 'limitToLast', limitCount: 10 },
+    ])).not.toThrow();
+  });
+
+  it('should require the first orderBy to match the first inequality field', () => {
+    const orderBy: QueryConstraintDefinition = { type: 'orderBy', fieldPath: 'name', directionStr: 'asc' };
+    const error = validationErrorFor([{ type: 'where', fieldPath: 'age', opStr: '<', value: 3 }, orderBy]);
+    expect(error).toBeInstanceOf(QueryValidationError);
+    expect(error.constraint).toBe(orderBy);
+  });
+
+  it('should reject limitToLast without orderBy', () => {
+    const error = validationErrorFor([{ type: 'limitToLast', limitCount: 2 }]);
+    expect(error.message).toBe('Invalid query: limitToLast requires at least one orderBy clause (at limitToLast(2))');
+  });
+
+  it('should reject mixing not-in with != even inside composite filters', () => {
+    const notEqual: QueryConstraintDefinition = { type: 'where', fieldPath: 'b', opStr: '!=', value: 1 };
+    const error = validationErrorFor([
+      { type: 'where', fieldPath: 'a', opStr: 'not-in', value: [1, 2] },
+      { type: 'or', filters: [notEqual, { type: 'where', fieldPath: 'c', opStr: '==', value: 1 }] },
+    ]);
+    expect(error.constraint).toBe(notEqual);
+  });
+
+  it('should reject queries with too many disjunctions', () => {
+    const tags: QueryConstraintDefinition = { type: 'where', fieldPath: 'tags', opStr: 'array-contains-any', value: [1, 2, 3, 4, 5, 6, 7] };
+    const error = validationErrorFor([
+      { type: 'where', fieldPath: 'status', opStr: 'in', value: ['a', 'b', 'c', 'd', 'e'] },
+      tags,
+    ]);
+    expect(error.message).toContain('the query expands to 35 disjunctions, more than the maximum of 30');
+    expect(error.constraint).toBe(tags);
+  });
+
+  it('should reject cursors with more values than orderBy clauses', () => {
+    const cursor: QueryConstraintDefinition = { type: 'startAt', snapshotOrFieldValue: 1, fieldValues: ['x', 'y'] };
+    const error = validationErrorFor([{ type: 'orderBy', fieldPath: 'n', directionStr: 'asc' }, cursor]);
+    expect(error.message).toContain('startAt has 3 values but the query only orders by 2 field(s)');
+    expect(error.constraint).toBe(cursor);
+  });
+
+  it('should reject empty arrays for array-valued operators', () => {
+    const error = validationErrorFor([{ type: 'where', fieldPath: 'a', opStr: 'in', value: [] }]);
+    expect(error.message).toContain("'in' filters require a non-empty array");
+  });
+});
+
+describe('getInequalityFieldPaths()', () => {
+  it('should list distinct inequality fields in order, including nested ones', () => {
+    expect(getInequalityFieldPaths([
+      { type: 'where', fieldPath: 'a', opStr: '==', value: 1 },
+      { type: 'where', fieldPath: 'b', opStr: '>', value: 1 },
+      { type: 'and', filters: [{ type: 'where', fieldPath: 'c', opStr: 'not-in', value: [1] }] },
+      { type: 'where', fieldPath: 'b', opStr: '<', value: 5 },
+    ])).toEqual(['b', 'c']);
+  });
+});
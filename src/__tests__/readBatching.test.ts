@@ -0,0 +1,57 @@
+import { mapWithConcurrency, ReadBatcher, enableReadBatching, disableReadBatching, getReadBatcher } from '../readBatching';
+
+// Minimal collection stand-in: only ref.path and getMany() are used by the batcher
+const fakeCollection = (path: string, getMany: jest.Mock) => ({ ref: { path }, getMany }) as any;
+
+// --- Test Suite ---
+
+describe('mapWithConcurrency()', () => {
+  it('should preserve order and reject invalid concurrency', async () => {
+    const results = await mapWithConcurrency([3, 1, 2], 2, async (n) => {
+      await new Promise(resolve => setTimeout(resolve, n));
+      return n * 10;
+    });
+    expect(results).toEqual([30, 10, 20]);
+    await expect(mapWithConcurrency([1], 0, async n => n)).rejects.toThrow('Invalid concurrency: 0');
+  });
+});
+
+describe('ReadBatcher', () => {
+  it('should load each collection once per tick with de-duplicated IDs', async () => {
+    const usersGetMany = jest.fn(async (ids: string[]) => ids.map(id => ({ id })));
+    const postsGetMany = jest.fn(async (ids: string[]) => ids.map(() => undefined));
+    const batcher = new ReadBatcher({ concurrency: 3 });
+    const users = fakeCollection('users', usersGetMany);
+    const posts = fakeCollection('posts', postsGetMany);
+
+    const results = await Promise.all([batcher.load(users, 'u1'), batcher.load(posts, 'p1'), batcher.load(users, 'u1'), batcher.load(users, 'u2')]);
+
+    expect(results).toEqual([{ id: 'u1' }, undefined, { id: 'u1' }, { id: 'u2' }]);
+    expect(usersGetMany).toHaveBeenCalledWith(['u1', 'u2'], { concurrency: 3 });
+    expect(postsGetMany).toHaveBeenCalledTimes(1);
+
+    await batcher.load(users, 'u3');
+    expect(usersGetMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject every load in a failed batch', async () => {
+    const batcher = new ReadBatcher();
+    const users = fakeCollection('users', jest.fn(async () => { throw new Error('offline'); }));
+
+    const results = await Promise.allSettled([batcher.load(users, 'u1'), batcher.load(users, 'u2')]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+  });
+});
+
+describe('enableReadBatching()', () => {
+  it('should register one batcher per Firestore instance', () => {
+    const firestore = {} as any;
+    const batcher = enableReadBatching(firestore);
+    expect(enableReadBatching(firestore)).toBe(batcher);
+    expect(getReadBatcher(firestore)).toBe(batcher);
+
+    disableReadBatching(firestore);
+    expect(getReadBatcher(firestore)).toBeUndefined();
+  });
+});
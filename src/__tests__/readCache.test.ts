@@ -0,0 +1,112 @@
+import { ReadCache, MemoryLRUStorage, enableReadCache, disableReadCache, getReadCache } from '../readCache';
+
+const users = { collectionId: 'users', collectionPath: 'users' };
+
+// --- Test Suite ---
+
+describe('MemoryLRUStorage', () => {
+  it('should evict the least recently used entry', () => {
+    const storage = new MemoryLRUStorage(2);
+    const entry = (value: unknown) => ({ value, expiresAt: Infinity, collectionId: 'c' });
+    storage.set('a', entry(1));
+    storage.set('b', entry(2));
+    storage.get('a');
+    storage.set('c', entry(3));
+
+    expect(Array.from(storage.keys())).toEqual(['a', 'c']);
+    expect(() => new MemoryLRUStorage(0)).toThrow('Invalid cache size: 0');
+  });
+});
+
+describe('ReadCache', () => {
+  let now: number;
+  let cache: ReadCache;
+
+  beforeEach(() => {
+    now = 1000;
+    cache = new ReadCache({ defaultTtlMs: 100, ttls: { posts: 0 }, now: () => now });
+  });
+
+  it('should serve reads from the cache until they expire', async () => {
+    const load = jest.fn(async () => ({ name: 'A' }));
+
+    const first = await cache.getOrLoad(users, 'doc:users/a', load);
+    const second = await cache.getOrLoad(users, 'doc:users/a', load);
+    now += 100;
+    await cache.getOrLoad(users, 'doc:users/a', load);
+
+    expect(second).toBe(first);
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(cache.stats).toEqual({ hits: 1, misses: 2, invalidations: 0 });
+  });
+
+  it('should not cache collections with a TTL of 0', async () => {
+    const load = jest.fn(async () => 1);
+    await cache.getOrLoad({ collectionId: 'posts', collectionPath: 'posts' }, 'k', load);
+    await cache.getOrLoad({ collectionId: 'posts', collectionPath: 'posts' }, 'k', load);
+
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(cache.getTtl('posts')).toBe(0);
+    expect(cache.getTtl('users')).toBe(100);
+  });
+
+  it('should invalidate a collection and collection group reads with the same ID', async () => {
+    const load = jest.fn(async () => 1);
+    await cache.getOrLoad(users, 'doc:users/a', load);
+    await cache.getOrLoad({ collectionId: 'tags', collectionPath: 'users/a/tags' }, 'sub', async () => 1);
+    await cache.getOrLoad({ collectionId: 'comments', collectionPath: 'users/a/comments' }, 'other', async () => 1);
+    await cache.getOrLoad({ collectionId: 'comments' }, 'group', async () => 1);
+
+    await cache.invalidateCollection('users/b/comments');
+
+    expect(await (cache as any).storage.keys()).toEqual(['doc:users/a', 'sub', 'other']);
+    await cache.invalidateCollection('users');
+    await cache.getOrLoad(users, 'doc:users/a', load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache a read that was in flight during an invalidation', async () => {
+    let resolveLoad!: (value: number) => void;
+    const pending = cache.getOrLoad(users, 'k', () => new Promise<number>(resolve => { resolveLoad = resolve; }));
+    await Promise.resolve();
+
+    await cache.invalidateCollection('users');
+    resolveLoad(1);
+    await pending;
+
+    const load = jest.fn(async () => 2);
+    expect(await cache.getOrLoad(users, 'k', load)).toBe(2);
+  });
+
+  it('should work with asynchronous storage adapters', async () => {
+    const map = new Map<string, any>();
+    const storage = {
+      get: async (key: string) => map.get(key),
+      set: async (key: string, entry: any) => { map.set(key, entry); },
+      delete: async (key: string) => { map.delete(key); },
+      keys: async () => map.keys(),
+      clear: async () => map.clear(),
+    };
+    const asyncCache = new ReadCache({ storage });
+    const load = jest.fn(async () => 'value');
+
+    await asyncCache.getOrLoad(users, 'k', load);
+    expect(await asyncCache.getOrLoad(users, 'k', load)).toBe('value');
+    expect(load).toHaveBeenCalledTimes(1);
+
+    await asyncCache.clear();
+    expect(map.size).toBe(0);
+  });
+});
+
+describe('enableReadCache()', () => {
+  it('should register one cache per Firestore instance', () => {
+    const firestore = {} as any;
+    const cache = enableReadCache(firestore);
+    expect(enableReadCache(firestore)).toBe(cache);
+    expect(getReadCache(firestore)).toBe(cache);
+
+    disableReadCache(firestore);
+    expect(getReadCache(firestore)).toBeUndefined();
+  });
+});
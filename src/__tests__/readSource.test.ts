@@ -0,0 +1,78 @@
+import { getDocFromSource, getDocsFromSource, describeReadOptions, isDefaultRead } from '../readSource';
+import {
+  getDoc,
+  getDocFromCache,
+  getDocFromServer,
+  getDocs,
+  getDocsFromCache,
+  getDocsFromServer,
+} from 'firebase/firestore';
+
+jest.mock('firebase/firestore', () => ({
+  ...(jest.requireActual('firebase/firestore')),
+  getDoc: jest.fn(async () => 'default-doc'),
+  getDocFromCache: jest.fn(),
+  getDocFromServer: jest.fn(async () => 'server-doc'),
+  getDocs: jest.fn(async () => 'default-docs'),
+  getDocsFromCache: jest.fn(),
+  getDocsFromServer: jest.fn(async () => ({ empty: false, source: 'server' })),
+}));
+
+const docRef = { path: 'items/a' } as any;
+const query = { __type: 'query' } as any;
+const unavailable = Object.assign(new Error('not cached'), { code: 'unavailable' });
+
+// --- Test Suite ---
+
+describe('getDocFromSource()', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (getDocFromCache as jest.Mock).mockRejectedValue(unavailable);
+  });
+
+  it('should map each source to the matching SDK function', async () => {
+    expect(await getDocFromSource(docRef)).toBe('default-doc');
+    expect(await getDocFromSource(docRef, { source: 'server' })).toBe('server-doc');
+    (getDocFromCache as jest.Mock).mockResolvedValueOnce('cached-doc');
+    expect(await getDocFromSource(docRef, { source: 'cache' })).toBe('cached-doc');
+
+    expect(getDoc).toHaveBeenCalledWith(docRef);
+    expect(getDocFromServer).toHaveBeenCalledWith(docRef);
+  });
+
+  it('should apply the cache miss policy', async () => {
+    await expect(getDocFromSource(docRef, { source: 'cache' })).rejects.toBe(unavailable);
+    expect(await getDocFromSource(docRef, { source: 'cache', cacheMiss: 'missing' })).toBeUndefined();
+    expect(await getDocFromSource(docRef, { source: 'cache', cacheMiss: 'server' })).toBe('server-doc');
+  });
+
+  it('should rethrow cache errors other than a miss', async () => {
+    const failure = Object.assign(new Error('closed'), { code: 'failed-precondition' });
+    (getDocFromCache as jest.Mock).mockRejectedValueOnce(failure);
+    await expect(getDocFromSource(docRef, { source: 'cache', cacheMiss: 'server' })).rejects.toBe(failure);
+  });
+});
+
+describe('getDocsFromSource()', () => {
+  beforeEach(() => jest.clearAllMocks());
+
+  it('should read from the server when the cached result is empty under the server policy', async () => {
+    (getDocsFromCache as jest.Mock).mockResolvedValue({ empty: true });
+
+    expect(await getDocsFromSource(query, { source: 'cache' })).toEqual({ empty: true });
+    expect(await getDocsFromSource(query, { source: 'cache', cacheMiss: 'server' })).toEqual({ empty: false, source: 'server' });
+    expect(await getDocsFromSource(query)).toBe('default-docs');
+    expect(getDocs).toHaveBeenCalledWith(query);
+    expect(getDocsFromServer).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('describeReadOptions()', () => {
+  it('should describe the source and, for cache reads, the miss policy', () => {
+    expect(describeReadOptions()).toBe('default');
+    expect(describeReadOptions({ source: 'server' })).toBe('server');
+    expect(describeReadOptions({ source: 'cache', cacheMiss: 'missing' })).toBe('cache/missing');
+    expect(isDefaultRead({ source: 'default' })).toBe(true);
+    expect(isDefaultRead({ source: 'cache' })).toBe(false);
+  });
+});
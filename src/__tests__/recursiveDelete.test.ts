@@ -0,0 +1,62 @@
+import { deleteInBatches } from '../recursiveDelete';
+
+// Import client functions that are mocked
+import { writeBatch } from 'firebase/firestore';
+
+// --- Mocks ---
+
+jest.mock('firebase/firestore', () => ({
+  ...(jest.requireActual('firebase/firestore')),
+  writeBatch: jest.fn(),
+}));
+
+const createMockBatch = () => ({
+  delete: jest.fn(),
+  commit: jest.fn().mockResolvedValue(undefined),
+});
+
+const refs = ['a/1/b/1', 'a/1/b/2', 'a/1/b/3', 'a/1'].map(path => ({ path }) as any);
+
+// --- Test Suite ---
+
+describe('deleteInBatches()', () => {
+  let batches: ReturnType<typeof createMockBatch>[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    batches = [];
+    (writeBatch as jest.Mock).mockImplementation(() => {
+      const batch = createMockBatch();
+      batches.push(batch);
+      return batch;
+    });
+  });
+
+  it('should delete in order, in batches of batchSize, reporting progress', async () => {
+    const onProgress = jest.fn();
+
+    const deleted = await deleteInBatches({} as any, refs, { batchSize: 3, onProgress });
+
+    expect(deleted).toBe(4);
+    expect(batches).toHaveLength(2);
+    expect(batches[0].delete.mock.calls.map(call => call[0].path)).toEqual(['a/1/b/1', 'a/1/b/2', 'a/1/b/3']);
+    expect(batches[1].delete.mock.calls.map(call => call[0].path)).toEqual(['a/1']);
+    expect(onProgress.mock.calls).toEqual([[{ deleted: 3, total: 4 }], [{ deleted: 4, total: 4 }]]);
+  });
+
+  it('should stop at the first failed batch, leaving later documents in place', async () => {
+    (writeBatch as jest.Mock).mockImplementationOnce(() => {
+      const batch = createMockBatch();
+      batch.commit.mockRejectedValue(new Error('denied'));
+      batches.push(batch);
+      return batch;
+    });
+
+    await expect(deleteInBatches({} as any, refs, { batchSize: 2 })).rejects.toThrow('denied');
+    expect(batches).toHaveLength(1);
+  });
+
+  it('should reject invalid batch sizes', async () => {
+    await expect(deleteInBatches({} as any, refs, { batchSize: 0 })).rejects.toThrow('Invalid batchSize: 0');
+  });
+});
\ No newline at end of file
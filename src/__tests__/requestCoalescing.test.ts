@@ -0,0 +1,54 @@
+import { RequestCoalescer, enableRequestCoalescing, disableRequestCoalescing, coalesceRequest } from '../requestCoalescing';
+
+// --- Test Suite ---
+
+describe('RequestCoalescer', () => {
+  it('should run concurrent requests with the same key once', async () => {
+    const coalescer = new RequestCoalescer();
+    const request = jest.fn(async () => 'result');
+
+    const results = await Promise.all([coalescer.run('k', request), coalescer.run('k', request)]);
+
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(results).toEqual(['result', 'result']);
+    expect(coalescer.size).toBe(0);
+  });
+
+  it('should share failures and release the key afterwards', async () => {
+    const coalescer = new RequestCoalescer();
+    const failing = jest.fn(async () => { throw new Error('boom'); });
+
+    const results = await Promise.allSettled([coalescer.run('k', failing), coalescer.run('k', failing)]);
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+    expect(failing).toHaveBeenCalledTimes(1);
+
+    await expect(coalescer.run('k', async () => 'retry')).resolves.toBe('retry');
+  });
+});
+
+describe('coalesceRequest()', () => {
+  const firestore = {} as any;
+
+  afterEach(() => disableRequestCoalescing(firestore));
+
+  it('should call the request directly, without computing a key, when coalescing is off', async () => {
+    const getKey = jest.fn(() => 'k');
+    const request = jest.fn(async () => 1);
+
+    await Promise.all([coalesceRequest(firestore, getKey, request), coalesceRequest(firestore, getKey, request)]);
+
+    expect(getKey).not.toHaveBeenCalled();
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use one coalescer per Firestore instance once enabled', async () => {
+    const coalescer = enableRequestCoalescing(firestore);
+    expect(enableRequestCoalescing(firestore)).toBe(coalescer);
+
+    const request = jest.fn(async () => 1);
+    await Promise.all([coalesceRequest(firestore, () => 'k', request), coalesceRequest(firestore, () => 'k', request)]);
+    await coalesceRequest({} as any, () => 'k', request);
+
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,107 @@
+import { serializeValue, deserializeValue, encodeToken, decodeToken, serializeConstraint, deserializeConstraint } from '../serialization';
+import type { QueryConstraintDefinition } from '../baseQueryBuilder';
+import { Timestamp, GeoPoint, Bytes, doc } from 'firebase/firestore';
+
+// --- Mocks ---
+
+jest.mock('firebase/firestore', () => {
+  const actual = jest.requireActual('firebase/firestore');
+  return {
+    ...actual,
+    doc: jest.fn((_firestore: any, path: string) => ({ __type: 'mockDocRef', path })),
+  };
+});
+
+// --- Test Suite ---
+
+describe('serializeValue() / deserializeValue()', () => {
+  const mockFirestore = {} as any;
+
+  it('should keep plain JSON values unchanged', () => {
+    expect(serializeValue('a')).toBe('a');
+    expect(serializeValue(1.5)).toBe(1.5);
+    expect(serializeValue(null)).toBeNull();
+    expect(serializeValue([true, 'x'])).toEqual([true, 'x']);
+  });
+
+  it('should round-trip Timestamp, GeoPoint, Bytes and nested maps through JSON', () => {
+    const original = {
+      at: new Timestamp(100, 5),
+      where: new GeoPoint(1.5, -2),
+      blob: Bytes.fromBase64String('AQID'),
+      nested: { list: [new Timestamp(1, 0)], missing: undefined },
+    };
+
+    const json = JSON.parse(JSON.stringify(serializeValue(original)));
+    const restored = deserializeValue(json, mockFirestore) as any;
+
+    expect(restored.at).toBeInstanceOf(Timestamp);
+    expect(restored.at.isEqual(original.at)).toBe(true);
+    expect(restored.where.isEqual(original.where)).toBe(true);
+    expect(restored.blob.isEqual(original.blob)).toBe(true);
+    expect(restored.nested.list[0].seconds).toBe(1);
+    expect('missing' in restored.nested).toBe(true);
+    expect(restored.nested.missing).toBeUndefined();
+  });
+
+  it('should encode Dates as Timestamps', () => {
+    const date = new Date(1700000000000);
+    expect(serializeValue(date)).toEqual({ __type: 'timestamp', seconds: 1700000000, nanoseconds: 0 });
+  });
+
+  it('should resolve references against the given Firestore instance', () => {
+    const restored = deserializeValue({ __type: 'reference', path: 'users/u1' }, mockFirestore);
+    expect(doc).toHaveBeenCalledWith(mockFirestore, 'users/u1');
+    expect(restored).toEqual({ __type: 'mockDocRef', path: 'users/u1' });
+  });
+
+  it('should reject unknown tagged values', () => {
+    expect(() => deserializeValue({ __type: 'nope' } as any, mockFirestore)).toThrow('Unsupported serialized value type: nope');
+  });
+});
+
+describe('encodeToken() / decodeToken()', () => {
+  it('should round-trip payloads through a URL-safe string', () => {
+    const payload = { v: ['héllo/wörld?', 42], d: 'a' };
+    const token = encodeToken(payload);
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeToken(token)).toEqual(payload);
+  });
+});
+
+describe('serializeConstraint() / deserializeConstraint()', () => {
+  const mockFirestore = {} as any;
+
+  it('should round-trip every constraint type through JSON', () => {
+    const definitions: QueryConstraintDefinition[] = [
+      { type: 'where', fieldPath: 'at', opStr: '>=', value: new Timestamp(10, 0) },
+      {
+        type: 'or',
+        filters: [
+          { type: 'where', fieldPath: 'owner', opStr: '==', value: { path: 'users/u1' } },
+          { type: 'and', filters: [{ type: 'where', fieldPath: 'loc', opStr: '==', value: new GeoPoint(1, 2) }] },
+        ],
+      },
+      { type: 'orderBy', fieldPath: 'at', directionStr: 'desc' },
+      { type: 'limit', limitCount: 5 },
+      { type: 'startAfter', snapshotOrFieldValue: new Timestamp(20, 0), fieldValues: ['doc-1'] },
+    ];
+
+    const json = JSON.parse(JSON.stringify(definitions.map(serializeConstraint)));
+    const restored = json.map((constraint: any) => deserializeConstraint(constraint, mockFirestore));
+
+    expect(restored).toEqual(definitions);
+    expect(restored[0].value).toBeInstanceOf(Timestamp);
+    expect(restored[4].snapshotOrFieldValue).toBeInstanceOf(Timestamp);
+  });
+
+  it('should restore document references in filter values', () => {
+    const ref = deserializeConstraint({ type: 'where', fieldPath: 'owner', opStr: '==', value: { __type: 'reference', path: 'users/u1' } }, mockFirestore);
+    expect(ref).toEqual({ type: 'where', fieldPath: 'owner', opStr: '==', value: { __type: 'mockDocRef', path: 'users/u1' } });
+  });
+
+  it('should reject composite filters containing non-filter constraints', () => {
+    expect(() => deserializeConstraint({ type: 'or', filters: [{ type: 'limit', limitCount: 1 }] }, mockFirestore))
+      .toThrow("Composite 'or' filters may only contain filters.");
+  });
+});
@@ -0,0 +1,23 @@
+import { getSoftDeleteField, isSoftDeleted } from '../softDelete';
+
+// --- Test Suite ---
+
+describe('getSoftDeleteField()', () => {
+  it('should default to deletedAt', () => {
+    expect(getSoftDeleteField({})).toBe('deletedAt');
+    expect(getSoftDeleteField({ field: 'removedAt' })).toBe('removedAt');
+  });
+});
+
+describe('isSoftDeleted()', () => {
+  it('should treat any marker value other than null as deleted', () => {
+    expect(isSoftDeleted({ deletedAt: new Date(0) }, {})).toBe(true);
+    expect(isSoftDeleted({ removedAt: 1 }, { field: 'removedAt' })).toBe(true);
+  });
+
+  it('should treat null or missing markers and missing documents as live', () => {
+    expect(isSoftDeleted({ deletedAt: null }, {})).toBe(false);
+    expect(isSoftDeleted({ name: 'A' }, {})).toBe(false);
+    expect(isSoftDeleted(undefined, {})).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { applyManagedTimestamps, applyManagedTimestampOptions } from '../timestamps';
+
+const MOCK_SERVER_TIMESTAMP = { type: 'serverTimestamp' };
+
+jest.mock('firebase/firestore', () => ({
+  ...(jest.requireActual('firebase/firestore')),
+  serverTimestamp: jest.fn(() => ({ type: 'serverTimestamp' })),
+}));
+
+const config = { createdAt: 'createdAt', updatedAt: 'updatedAt' };
+
+// --- Test Suite ---
+
+describe('applyManagedTimestamps()', () => {
+  it('should set both fields on creation, replacing caller values', () => {
+    expect(applyManagedTimestamps({ name: 'A', createdAt: 'forged' }, config, 'create')).toEqual({
+      name: 'A',
+      createdAt: MOCK_SERVER_TIMESTAMP,
+      updatedAt: MOCK_SERVER_TIMESTAMP,
+    });
+  });
+
+  it.each(['merge', 'update'] as const)('should only set updatedAt on %s writes, dropping createdAt', (kind) => {
+    expect(applyManagedTimestamps({ name: 'A', createdAt: 'forged', updatedAt: 'forged' }, config, kind)).toEqual({
+      name: 'A',
+      updatedAt: MOCK_SERVER_TIMESTAMP,
+    });
+  });
+
+  it('should keep caller values when overrides are allowed', () => {
+    const data = { createdAt: 'imported', updatedAt: 'imported' };
+    expect(applyManagedTimestamps(data, { ...config, allowOverride: true }, 'merge')).toEqual(data);
+    expect(applyManagedTimestamps({}, { ...config, allowOverride: true }, 'create')).toEqual({
+      createdAt: MOCK_SERVER_TIMESTAMP,
+      updatedAt: MOCK_SERVER_TIMESTAMP,
+    });
+  });
+
+  it('should not modify the input', () => {
+    const data = { name: 'A' };
+    applyManagedTimestamps(data, config, 'create');
+    expect(data).toEqual({ name: 'A' });
+  });
+});
+
+describe('applyManagedTimestampOptions()', () => {
+  it('should add updatedAt to mergeFields and remove createdAt', () => {
+    expect(applyManagedTimestampOptions({ mergeFields: ['name', 'createdAt'] }, config)).toEqual({ mergeFields: ['name', 'updatedAt'] });
+    expect(applyManagedTimestampOptions({ mergeFields: ['createdAt'] }, { ...config, allowOverride: true }))
+      .toEqual({ mergeFields: ['createdAt', 'updatedAt'] });
+  });
+
+  it('should leave other options unchanged', () => {
+    const options = { merge: true };
+    expect(applyManagedTimestampOptions(options, config)).toBe(options);
+    expect(applyManagedTimestampOptions(undefined, config)).toBeUndefined();
+  });
+});
@@ -0,0 +1,185 @@
+import { runTypedTransaction, ClientTypedTransaction } from '../transaction';
+import { ClientBaseCollectionRef } from '../baseCollection';
+import { ClientBaseUpdateBuilder } from '../baseUpdateBuilder';
+import { ValidationError } from '../validation';
+import { ConflictError } from '../optimisticLocking';
+import { enableReadCache, disableReadCache } from '../readCache';
+
+// Import client functions that are mocked
+import { runTransaction, doc } from 'firebase/firestore';
+
+// --- Mocks ---
+
+const MOCK_SERVER_TIMESTAMP = { type: 'serverTimestamp' } as any;
+
+jest.mock('firebase/firestore', () => ({
+  ...(jest.requireActual('firebase/firestore')), // Keep actual implementations for types etc.
+  collection: jest.fn(() => ({ id: 'items', path: 'items' })),
+  doc: jest.fn((ref: any, id: string) => ({ id, path: `${ref.path}/${id}` })),
+  runTransaction: jest.fn(),
+  serverTimestamp: jest.fn(() => MOCK_SERVER_TIMESTAMP),
+}));
+
+// Mock types for testing
+interface TestData {
+  name: string;
+  createdAt?: any;
+}
+type TestAddData = TestData;
+
+// --- Test Suite ---
+
+describe('ClientTypedTransaction', () => {
+  let mockTransaction: any;
+  let tx: ClientTypedTransaction;
+  let collectionRef: ClientBaseCollectionRef<TestData, TestAddData>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTransaction = {
+      get: jest.fn(),
+      set: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    };
+    tx = new ClientTypedTransaction(mockTransaction);
+    collectionRef = new ClientBaseCollectionRef<TestData, TestAddData>(
+      {} as any,
+      'items',
+      { fields: { name: { type: 'string', required: true }, createdAt: { defaultValue: 'serverTimestamp' } } }
+    );
+  });
+
+  it('should read typed data through the transaction', async () => {
+    mockTransaction.get.mockResolvedValue({ exists: () => true, data: () => ({ name: 'A' }) });
+    await expect(tx.get(collectionRef, 'a')).resolves.toEqual({ name: 'A' });
+    expect(mockTransaction.get).toHaveBeenCalledWith({ id: 'a', path: 'items/a' });
+
+    mockTransaction.get.mockResolvedValue({ exists: () => false, data: () => undefined });
+    await expect(tx.get(collectionRef, 'missing')).resolves.toBeUndefined();
+  });
+
+  it('should apply schema defaults on full sets', async () => {
+    await tx.set(collectionRef, 'a', { name: 'A' });
+    expect(mockTransaction.set).toHaveBeenCalledWith(
+      { id: 'a', path: 'items/a' },
+      { name: 'A', createdAt: MOCK_SERVER_TIMESTAMP },
+      {}
+    );
+  });
+
+  it('should not apply defaults on merge sets', async () => {
+    await tx.set(collectionRef, 'a', { name: 'B' }, { merge: true });
+    expect(mockTransaction.set).toHaveBeenCalledWith({ id: 'a', path: 'items/a' }, { name: 'B' }, { merge: true });
+  });
+
+  it('should validate data before writing', async () => {
+    await expect(tx.set(collectionRef, 'a', { name: 42 } as any)).rejects.toThrow(ValidationError);
+    expect(mockTransaction.set).not.toHaveBeenCalled();
+  });
+
+  it('should apply update builder data', async () => {
+    const builder = new ClientBaseUpdateBuilder<TestData>(collectionRef.doc('a'))._set('name', 'C');
+    await tx.update(builder);
+    expect(mockTransaction.update).toHaveBeenCalledWith({ id: 'a', path: 'items/a' }, { name: 'C' });
+  });
+
+  describe('with optimistic locking', () => {
+    const locking = { strategy: 'version' as const };
+    let lockedRef: ClientBaseCollectionRef<any, any>;
+
+    beforeEach(() => {
+      lockedRef = new ClientBaseCollectionRef<any, any>({} as any, 'items', { fields: {}, optimisticLocking: locking });
+      mockTransaction.get.mockResolvedValue({ exists: () => true, get: () => 3 });
+    });
+
+    it('should check and bump the version on sets', async () => {
+      await tx.set(lockedRef, 'a', { name: 'A', version: 3 });
+
+      expect(mockTransaction.get).toHaveBeenCalledWith({ id: 'a', path: 'items/a' });
+      expect(mockTransaction.set).toHaveBeenCalledWith({ id: 'a', path: 'items/a' }, { name: 'A', version: 4 }, {});
+    });
+
+    it('should check and bump the version on update builders', async () => {
+      const builder = new ClientBaseUpdateBuilder<any>(lockedRef.doc('a'), { optimisticLocking: locking })._set('name', 'C');
+
+      await tx.update(builder.ifMatch(3));
+      expect(mockTransaction.update).toHaveBeenCalledWith({ id: 'a', path: 'items/a' }, { name: 'C', version: 4 });
+
+      await expect(tx.update(builder.ifMatch(2))).rejects.toBeInstanceOf(ConflictError);
+      await expect(tx.update(builder)).rejects.toThrow('require ifMatch()');
+      expect(mockTransaction.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should delete through the transaction', async () => {
+    await tx.delete(collectionRef, 'a');
+    expect(mockTransaction.delete).toHaveBeenCalledWith({ id: 'a', path: 'items/a' });
+  });
+
+  describe('with soft deletes', () => {
+    let softRef: ClientBaseCollectionRef<any, any>;
+
+    beforeEach(() => {
+      softRef = new ClientBaseCollectionRef<any, any>({} as any, 'items', { fields: {}, softDelete: {} });
+    });
+
+    it('should read soft-deleted documents as missing unless read through withDeleted()', async () => {
+      const deleted = { name: 'A', deletedAt: new Date(0) };
+      mockTransaction.get.mockResolvedValue({ exists: () => true, data: () => deleted });
+
+      await expect(tx.get(softRef, 'a')).resolves.toBeUndefined();
+      await expect(tx.get(softRef.withDeleted(), 'a')).resolves.toEqual(deleted);
+    });
+
+    it('should set the marker of existing documents on delete()', async () => {
+      mockTransaction.get.mockResolvedValueOnce({ exists: () => true });
+      await tx.delete(softRef, 'a');
+      mockTransaction.get.mockResolvedValueOnce({ exists: () => false });
+      await tx.delete(softRef, 'missing');
+
+      expect(mockTransaction.update).toHaveBeenCalledTimes(1);
+      expect(mockTransaction.update).toHaveBeenCalledWith({ id: 'a', path: 'items/a' }, { deletedAt: MOCK_SERVER_TIMESTAMP });
+      expect(mockTransaction.delete).not.toHaveBeenCalled();
+    });
+
+    it('should hard-delete on purge()', () => {
+      tx.purge(softRef, 'a');
+      expect(mockTransaction.delete).toHaveBeenCalledWith({ id: 'a', path: 'items/a' });
+    });
+  });
+});
+
+describe('runTypedTransaction()', () => {
+  it('should run the SDK transaction and pass a typed context', async () => {
+    const mockTransaction = {};
+    (runTransaction as jest.Mock).mockImplementation((_firestore, fn) => fn(mockTransaction));
+    const firestore = {} as any;
+
+    const result = await runTypedTransaction(firestore, async (tx) => {
+      expect(tx).toBeInstanceOf(ClientTypedTransaction);
+      expect(tx.transaction).toBe(mockTransaction);
+      return 'done';
+    });
+
+    expect(runTransaction).toHaveBeenCalledWith(firestore, expect.any(Function), undefined);
+    expect(result).toBe('done');
+  });
+
+  it('should invalidate cached reads of the written collections after committing', async () => {
+    const firestore = {} as any;
+    const cache = enableReadCache(firestore);
+    const invalidate = jest.spyOn(cache, 'invalidateCollection');
+    const collectionRef = new ClientBaseCollectionRef<TestData, TestAddData>(firestore, 'items', { fields: {} });
+    (doc as jest.Mock).mockImplementation((ref: any, id: string) => ({ id, path: `${ref.path}/${id}`, parent: ref }));
+    (runTransaction as jest.Mock).mockImplementation((_firestore, fn) => fn({ delete: jest.fn() }));
+
+    await runTypedTransaction(firestore, async tx => {
+      tx.purge(collectionRef, 'a').purge(collectionRef, 'b');
+    });
+
+    expect(invalidate).toHaveBeenCalledTimes(1);
+    expect(invalidate).toHaveBeenCalledWith('items');
+    disableReadCache(firestore);
+  });
+});
@@ -0,0 +1,55 @@
+import { Timestamp, deleteField } from 'firebase/firestore';
+
+import { diffDocuments } from '../updateDiff';
+
+// --- Test Suite ---
+
+describe('diffDocuments()', () => {
+  it('should return no operations for equal documents', () => {
+    const doc = { name: 'A', at: new Timestamp(1, 0), nested: { tags: ['x'] } };
+    expect(diffDocuments(doc, { ...doc, at: new Timestamp(1, 0), nested: { tags: ['x'] } })).toEqual([]);
+  });
+
+  it('should set changed and added leaf paths and delete removed fields', () => {
+    const original = { name: 'A', address: { city: 'X', zip: '1' }, note: 'old', count: 1 };
+    const modified = { name: 'B', address: { city: 'X', zip: '2', street: 'S' }, count: 1, extra: null };
+
+    expect(diffDocuments<any>(original, modified)).toEqual([
+      { type: 'set', fieldPath: 'name', value: 'B' },
+      { type: 'set', fieldPath: 'address.zip', value: '2' },
+      { type: 'set', fieldPath: 'address.street', value: 'S' },
+      { type: 'delete', fieldPath: 'note' },
+      { type: 'set', fieldPath: 'extra', value: null },
+    ]);
+  });
+
+  it('should replace values whose type changes between a map and a leaf', () => {
+    expect(diffDocuments<any>({ a: { b: 1 } }, { a: 5 })).toEqual([{ type: 'set', fieldPath: 'a', value: 5 }]);
+    expect(diffDocuments<any>({ a: 5 }, { a: { b: 1 } })).toEqual([{ type: 'set', fieldPath: 'a', value: { b: 1 } }]);
+  });
+
+  it('should pass FieldValue sentinels through as changes', () => {
+    const sentinel = deleteField();
+    expect(diffDocuments<any>({ a: 1 }, { a: sentinel })).toEqual([{ type: 'set', fieldPath: 'a', value: sentinel }]);
+  });
+
+  it('should rewrite arrays whole unless arrayOps is enabled', () => {
+    expect(diffDocuments<any>({ tags: ['a'] }, { tags: ['a', 'b'] })).toEqual([{ type: 'set', fieldPath: 'tags', value: ['a', 'b'] }]);
+  });
+
+  it.each([
+    ['appended elements', ['a', 'b'], ['a', 'b', 'c', 'd'], { type: 'arrayUnion', fieldPath: 'tags', values: ['c', 'd'] }],
+    ['removed elements', ['a', 'b', 'c'], ['a', 'c'], { type: 'arrayRemove', fieldPath: 'tags', values: ['b'] }],
+    ['reordered elements', ['a', 'b'], ['b', 'a'], { type: 'set', fieldPath: 'tags', value: ['b', 'a'] }],
+    ['inserted elements', ['a', 'b'], ['c', 'a', 'b'], { type: 'set', fieldPath: 'tags', value: ['c', 'a', 'b'] }],
+    ['mixed changes', ['a', 'b'], ['a', 'c'], { type: 'set', fieldPath: 'tags', value: ['a', 'c'] }],
+    ['duplicates', ['a', 'a'], ['a', 'a', 'b'], { type: 'set', fieldPath: 'tags', value: ['a', 'a', 'b'] }],
+  ])('with arrayOps, should handle %s', (_, before, after, expected) => {
+    expect(diffDocuments<any>({ tags: before }, { tags: after }, { arrayOps: true })).toEqual([expected]);
+  });
+
+  it('should reject field names containing dots', () => {
+    expect(() => diffDocuments<any>({}, { 'a.b': 1 }))
+      .toThrow("Cannot diff field 'a.b': field names containing '.' cannot be used in dot-notation updates.");
+  });
+});
@@ -0,0 +1,86 @@
+import { validateData, ValidationError } from '../validation';
+import type { CollectionSchema } from '../baseCollection';
+import { Timestamp, GeoPoint, serverTimestamp, increment } from 'firebase/firestore';
+
+// --- Test Suite ---
+
+describe('validateData()', () => {
+  const schema: CollectionSchema = {
+    fields: {
+      name: { type: 'string', required: true, min: 2, max: 10 },
+      email: { type: 'string', pattern: '^[^@]+@[^@]+$' },
+      age: { type: 'number', min: 0, max: 150 },
+      status: { type: 'string', enum: ['active', 'disabled'] },
+      tags: { type: 'array', max: 3, items: { type: 'string', min: 1 } },
+      createdAt: { type: 'timestamp' },
+      location: { type: 'geopoint' },
+      address: {
+        type: 'map',
+        properties: {
+          city: { type: 'string', required: true },
+        },
+      },
+    },
+  };
+
+  it('should return no issues for valid data', () => {
+    const issues = validateData({
+      name: 'Alice',
+      email: 'alice@example.com',
+      age: 30,
+      status: 'active',
+      tags: ['a', 'b'],
+      createdAt: Timestamp.now(),
+      location: new GeoPoint(1, 2),
+      address: { city: 'Paris' },
+    }, schema);
+    expect(issues).toEqual([]);
+  });
+
+  it('should report missing required fields, including nested ones', () => {
+    const issues = validateData({ address: {} }, schema);
+    expect(issues).toEqual([
+      { path: 'name', message: 'is required' },
+      { path: 'address.city', message: 'is required' },
+    ]);
+  });
+
+  it('should skip required checks for partial data', () => {
+    expect(validateData({ age: 5 }, schema, { partial: true })).toEqual([]);
+  });
+
+  it('should report type mismatches', () => {
+    const issues = validateData({ name: 42, createdAt: 'yesterday', location: { lat: 1 } }, schema);
+    expect(issues.map(i => i.path)).toEqual(['name', 'createdAt', 'location']);
+    expect(issues[0].message).toBe('expected string');
+  });
+
+  it('should report every enum, range, length and pattern violation', () => {
+    const issues = validateData({
+      name: 'A',
+      email: 'not-an-email',
+      age: -1,
+      status: 'deleted',
+      tags: ['ok', '', 'c', 'd'],
+    }, schema);
+    expect(issues.map(i => i.path)).toEqual(['name', 'email', 'age', 'status', 'tags', 'tags[1]']);
+  });
+
+  it('should accept FieldValue sentinels regardless of type', () => {
+    const issues = validateData({ name: 'Bob', createdAt: serverTimestamp(), age: increment(1) }, schema);
+    expect(issues).toEqual([]);
+  });
+});
+
+describe('ValidationError', () => {
+  it('should list every failing path in its message', () => {
+    const error = new ValidationError([
+      { path: 'name', message: 'is required' },
+      { path: 'tags[0]', message: 'expected string' },
+    ], 'users');
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('ValidationError');
+    expect(error.paths).toEqual(['name', 'tags[0]']);
+    expect(error.message).toBe("Validation failed for collection 'users': name: is required; tags[0]: expected string");
+  });
+});
@@ -8,6 +8,11 @@ import type {
   DocumentData,
   SetOptions,
   DocumentSnapshot,
+  Query,
+  QuerySnapshot,
+  FirestoreError,
+  Unsubscribe,
+  Transaction,
   FieldValue, // Import FieldValue type
 } from 'firebase/firestore';
 
@@ -18,16 +23,80 @@ import {
   addDoc,
   setDoc,
   deleteDoc,
+  updateDoc,
   getDoc,
+  onSnapshot,
+  collectionGroup,
+  runTransaction,
+  getDocs,
+  query,
+  where,
+  documentId,
   serverTimestamp, // Import serverTimestamp function
 } from 'firebase/firestore';
 
+import { ClientBaseQueryBuilder } from './baseQueryBuilder';
+import type { ClientQueryBuilderOptions } from './baseQueryBuilder';
+import { validateData, ValidationError } from './validation';
+import { toDocumentEnvelope } from './documentEnvelope';
+import type { DocumentEnvelope } from './documentEnvelope';
+import { coalesceRequest } from './requestCoalescing';
+import { getReadBatcher, mapWithConcurrency, DEFAULT_READ_CONCURRENCY } from './readBatching';
+import type { GetManyOptions } from './readBatching';
+import { MAX_DISJUNCTION_VALUES } from './fanOut';
+import { getReadCache, invalidateWrittenCollections } from './readCache';
+import { getDocFromSource, isDefaultRead, describeReadOptions } from './readSource';
+import type { ReadOptions } from './readSource';
+import { checkLock, getLockField } from './optimisticLocking';
+import type { OptimisticLockingConfig } from './optimisticLocking';
+import { applyManagedTimestamps, applyManagedTimestampOptions } from './timestamps';
+import type { TimestampsConfig } from './timestamps';
+import { ClientBaseUpdateBuilder } from './baseUpdateBuilder';
+import type { ClientUpdateBuilderOptions } from './baseUpdateBuilder';
+import { getSoftDeleteField, isSoftDeleted } from './softDelete';
+import type { SoftDeleteConfig } from './softDelete';
+import { deleteInBatches } from './recursiveDelete';
+import type { RecursiveDeleteOptions, RecursiveDeleteResult } from './recursiveDelete';
+import { commitInBatches } from './batchWriter';
+import type { CopyOptions, CopyResult, PlannedCopyWrite } from './documentCopy';
+import { generateDocumentId, generateUlid, generateUuidV7, isDeterministicIdStrategy, withIdSuffix, DEFAULT_MAX_ID_ATTEMPTS } from './idGeneration';
+import type { IdGenerationConfig } from './idGeneration';
+
 // Define local types for schema (can be simple for now)
+export type FieldType = 'string' | 'number' | 'boolean' | 'timestamp' | 'geopoint' | 'reference' | 'array' | 'map' | 'any';
 export interface FieldSchema {
   defaultValue?: any;
+  type?: FieldType;
+  required?: boolean;
+  enum?: ReadonlyArray<unknown>;
+  /** Minimum value for numbers, minimum length for strings and arrays. */
+  min?: number;
+  /** Maximum value for numbers, maximum length for strings and arrays. */
+  max?: number;
+  pattern?: string | RegExp;
+  /** Constraints applied to every element of an array field. */
+  items?: FieldSchema;
+  /** Nested field definitions for map fields. */
+  properties?: Record<string, FieldSchema>;
 }
 export interface CollectionSchema {
   fields: Record<string, FieldSchema>;
+  /** Set to false to skip validation on add()/set() for this collection. Defaults to true. */
+  validate?: boolean;
+  /**
+   * Opt-in optimistic locking: set() and update builder commits fail with a ConflictError when
+   * the document's lock field no longer matches the value the write was based on.
+   */
+  optimisticLocking?: OptimisticLockingConfig;
+  /** Fields the runtime keeps set to server timestamps on creation and on every write. */
+  timestamps?: TimestampsConfig;
+  /**
+   * Opt-in soft deletes: delete() sets a marker field instead of removing the document, get() and
+   * query builders skip marked documents, and restore()/purge()/withDeleted() opt back out.
+   */
+  softDelete?: SoftDeleteConfig;
+  /** How add() generates document IDs. Defaults to Firestore's random auto-IDs. */
+  idGeneration?: IdGenerationConfig;
   // Add subCollections definition
   subCollections?: Record<string, {
     schema?: CollectionSchema; // Recursive type for sub-schema
@@ -35,6 +104,20 @@ export interface CollectionSchema {
   }>;
 }
 
+/** Thrown by create() when a document with the requested ID already exists. */
+export class DocumentExistsError extends Error {
+  /** Path of the existing document. */
+  public readonly path: string;
+
+  constructor(path: string) {
+    super(`Document '${path}' already exists.`);
+    // Restore the subclass prototype, which Error() drops in ES5 output
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'DocumentExistsError';
+    this.path = path;
+  }
+}
+
 export class ClientBaseCollectionRef<
   TData extends DocumentData, // Use SDK's DocumentData
   TAddData extends DocumentData,
@@ -43,6 +126,8 @@ export class ClientBaseCollectionRef<
   protected firestore: Firestore; // Use SDK's Firestore
   protected collectionId: string;
   protected schema?: CollectionSchema;
+  /** True for the view returned by withDeleted(), which reads soft-deleted documents too. */
+  protected includeDeleted = false;
 
   constructor(
     firestore: Firestore, // Expect specific Firestore type
@@ -95,11 +180,179 @@ export class ClientBaseCollectionRef<
     return dataWithDefaults as unknown as TData;
   }
 
-  /** Adds a new document. */
+  /** Validates data against the schema, throwing a ValidationError listing every failing field. */
+  protected validate(data: DocumentData, partial = false): void {
+    if (!this.schema || this.schema.validate === false) {
+      return;
+    }
+    const issues = validateData(data, this.schema, { partial });
+    if (issues.length > 0) {
+      throw new ValidationError(issues, this.ref.path);
+    }
+  }
+
+  /**
+   * Prepares an add() or set() payload: applies defaults (full writes only) and validates it.
+   * Used by add()/set() and by transactions so every write path behaves the same.
+   */
+  prepareWriteData(data: TAddData | Partial<TAddData>, options?: SetOptions): DocumentData {
+    // Determine if it's a merge operation
+    const isMerge = this.isMergeSet(options);
+
+    // Apply defaults ONLY if it's NOT a merge operation (setting the whole document)
+    // We cast data to TAddData here because the overload guarantees it's the full type when !isMerge.
+    let dataToWrite: DocumentData = !isMerge ? this.applyDefaults(data as TAddData) : data;
+    if (this.schema?.timestamps) {
+      dataToWrite = applyManagedTimestamps(dataToWrite, this.schema.timestamps, isMerge ? 'merge' : 'create');
+    }
+    if (this.schema?.softDelete && !isMerge) {
+      // Live documents need an explicit null marker to match the query builders' `== null` filter
+      const field = getSoftDeleteField(this.schema.softDelete);
+      dataToWrite = { [field]: null, ...dataToWrite };
+    }
+    this.validate(dataToWrite, !!isMerge);
+    return dataToWrite;
+  }
+
+  /** True if set() `options` merge into the document rather than overwrite it. */
+  private isMergeSet(options?: SetOptions): boolean {
+    return !!options && (('merge' in options && options.merge === true) || 'mergeFields' in options);
+  }
+
+  /** Adjusts set() options to the schema, e.g. adding managed timestamp fields to `mergeFields`. */
+  prepareSetOptions(options?: SetOptions): SetOptions | undefined {
+    return this.schema?.timestamps ? applyManagedTimestampOptions(options, this.schema.timestamps) : options;
+  }
+
+  /** Options for this collection's update builders, derived from the schema. */
+  protected getUpdateBuilderOptions(): ClientUpdateBuilderOptions {
+    return {
+      optimisticLocking: this.schema?.optimisticLocking,
+      timestamps: this.schema?.timestamps,
+      softDelete: this.schema?.softDelete,
+    };
+  }
+
+  /**
+   * Creates an update builder for a document, configured from the schema (optimistic locking,
+   * managed timestamps, soft deletes). Generated collections' update() methods call this with their builder class.
+   */
+  protected createUpdateBuilder<TBuilder extends ClientBaseUpdateBuilder<TData> = ClientBaseUpdateBuilder<TData>>(
+    id: string,
+    UpdateBuilderClass?: new (docRef: DocumentReference<TData>, options?: ClientUpdateBuilderOptions) => TBuilder
+  ): TBuilder {
+    const BuilderClass = UpdateBuilderClass ?? ClientBaseUpdateBuilder;
+    return new BuilderClass(this.doc(id), this.getUpdateBuilderOptions()) as TBuilder;
+  }
+
+  /** Options for this collection's query builders, derived from the schema. */
+  protected getQueryBuilderOptions(): ClientQueryBuilderOptions {
+    return {
+      softDelete: this.includeDeleted ? undefined : this.schema?.softDelete,
+    };
+  }
+
+  /**
+   * Creates a query builder over this collection, configured from the schema (soft deletes).
+   * Generated collections' query() methods call this with their query builder class.
+   */
+  protected createQueryBuilder<TBuilder extends ClientBaseQueryBuilder<TData> = ClientBaseQueryBuilder<TData>>(
+    QueryBuilderClass?: new (firestore: Firestore, ref: CollectionReference<TData>, options?: ClientQueryBuilderOptions) => TBuilder
+  ): TBuilder {
+    const BuilderClass = QueryBuilderClass ?? ClientBaseQueryBuilder;
+    return new BuilderClass(this.firestore, this.ref, this.getQueryBuilderOptions()) as TBuilder;
+  }
+
+  /**
+   * Returns a view of this collection whose reads, listeners and query builders include
+   * soft-deleted documents. Writes behave as on the collection itself.
+   */
+  withDeleted(): this {
+    const view = Object.create(Object.getPrototypeOf(this));
+    Object.assign(view, this);
+    view.includeDeleted = true;
+    return view;
+  }
+
+  /** Returns `data`, or undefined if it is soft-deleted and this view hides deleted documents. */
+  protected hideDeleted(data: TData | undefined): TData | undefined {
+    const softDelete = this.schema?.softDelete;
+    return softDelete && !this.includeDeleted && isSoftDeleted(data, softDelete) ? undefined : data;
+  }
+
+  /**
+   * Returns a reference for a document to be added outside add(), e.g. in a write batch, with an ID
+   * from the schema's 'ulid' or 'uuidv7' strategy or a Firestore auto-ID. Throws for 'fields' and
+   * 'custom' strategies, whose IDs need a read to check for collisions.
+   */
+  newDocRef(): DocumentReference<TData> {
+    const idGeneration = this.schema?.idGeneration;
+    if (!idGeneration) {
+      // Use top-level doc function without an ID to generate one client-side
+      return doc(this.ref);
+    }
+    if (isDeterministicIdStrategy(idGeneration)) {
+      throw new Error(`Collection '${this.ref.path}' uses the '${idGeneration.strategy}' ID strategy, whose IDs need a read to check for collisions. Use add() or create().`);
+    }
+    return this.doc(idGeneration.strategy === 'ulid' ? generateUlid() : generateUuidV7());
+  }
+
+  /**
+   * Adds a new document, with an ID generated as configured by `schema.idGeneration`. Field-derived
+   * and custom IDs are claimed in a transaction: a taken ID fails with a DocumentExistsError, or is
+   * suffixed under the 'suffix' collision policy.
+   */
   async add(data: TAddData): Promise<DocumentReference<TData>> {
-    const dataToWrite = this.applyDefaults(data);
-    // Use top-level addDoc function
-    return addDoc(this.ref, dataToWrite);
+    const dataToWrite = this.prepareWriteData(data) as TData;
+    const idGeneration = this.schema?.idGeneration;
+    let docRef: DocumentReference<TData>;
+    if (!idGeneration) {
+      // Use top-level addDoc function
+      docRef = await addDoc(this.ref, dataToWrite);
+    } else if (!isDeterministicIdStrategy(idGeneration)) {
+      docRef = this.doc(await generateDocumentId(idGeneration, dataToWrite));
+      await setDoc(docRef, dataToWrite);
+    } else {
+      docRef = await this.claimDocumentId(await generateDocumentId(idGeneration, dataToWrite), idGeneration, dataToWrite);
+    }
+    await this.invalidateCache();
+    return docRef;
+  }
+
+  /** Writes `data` under `id` (or, with the 'suffix' policy, its first free suffixed form) in a transaction. */
+  private async claimDocumentId(id: string, config: IdGenerationConfig, data: TData): Promise<DocumentReference<TData>> {
+    const maxAttempts = config.onCollision === 'suffix' ? config.maxAttempts ?? DEFAULT_MAX_ID_ATTEMPTS : 1;
+    // Use top-level runTransaction function
+    return runTransaction(this.firestore, async transaction => {
+      for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        const docRef = this.doc(withIdSuffix(id, attempt));
+        const snapshot = await transaction.get(docRef);
+        if (!snapshot.exists()) {
+          transaction.set(docRef, data);
+          return docRef;
+        }
+      }
+      throw new DocumentExistsError(this.doc(withIdSuffix(id, maxAttempts - 1)).path);
+    });
+  }
+
+  /**
+   * Creates a document with the given ID, failing with a DocumentExistsError if it already exists.
+   * The existence check and the write run in one transaction.
+   */
+  async create(id: string, data: TAddData): Promise<DocumentReference<TData>> {
+    const docRef = this.doc(id);
+    const dataToWrite = this.prepareWriteData(data) as TData;
+    // Use top-level runTransaction function
+    await runTransaction(this.firestore, async transaction => {
+      const snapshot = await transaction.get(docRef);
+      if (snapshot.exists()) {
+        throw new DocumentExistsError(docRef.path);
+      }
+      transaction.set(docRef, dataToWrite);
+    });
+    await this.invalidateCache();
+    return docRef;
   }
 
   /** Sets the data for a document, overwriting existing data unless merge options are provided. */
@@ -109,33 +362,366 @@ export class ClientBaseCollectionRef<
   async set(id: string, data: Partial<TAddData>, options: SetOptions & ({ merge: true } | { mergeFields: ReadonlyArray<string> })): Promise<void>;
   // Implementation signature
   async set(id: string, data: TAddData | Partial<TAddData>, options?: SetOptions): Promise<void> {
+    if (this.requiresLockCheck || this.requiresMarkerCheck(options) || this.tracksCreationTime(data)) {
+      // Lock, marker and createdAt checks read the document, so the write runs in a transaction
+      // Use top-level runTransaction function
+      await runTransaction(this.firestore, transaction => this.setInTransaction(transaction, id, data, options));
+    } else {
+      const dataToWrite = this.prepareWriteData(data, options);
+      // Use top-level setDoc function
+      // Cast dataToWrite to Partial<TData> which is compatible with setDoc's expectation for merge operations.
+      await setDoc(this.doc(id), dataToWrite as Partial<TData>, this.prepareSetOptions(options) || {});
+    }
+    await this.invalidateCache();
+  }
+
+  /**
+   * True if set() must read the document's lock field first (the schema uses optimistic locking),
+   * so sets can only run through set() or a transaction, not in a write batch.
+   */
+  get requiresLockCheck(): boolean {
+    return this.schema?.optimisticLocking !== undefined;
+  }
+
+  /** True if the schema enables soft deletes, so delete() sets a marker instead of removing documents. */
+  get usesSoftDelete(): boolean {
+    return this.schema?.softDelete !== undefined;
+  }
+
+  /**
+   * True if a set() with `options` must read the document to find out whether it creates it: merge
+   * sets on soft-deleting collections write the null soft-delete marker only on creation.
+   */
+  requiresMarkerCheck(options?: SetOptions): boolean {
+    return this.usesSoftDelete && this.isMergeSet(options);
+  }
+
+  /**
+   * True if set() must read the document to manage its createdAt field: it is set when the set
+   * creates the document and kept when it overwrites one, unless the caller provides an allowed
+   * override. Write batches cannot read, so their full sets always write a new createdAt.
+   */
+  private tracksCreationTime(data: TAddData | Partial<TAddData>): boolean {
+    const timestamps = this.schema?.timestamps;
+    return timestamps?.createdAt !== undefined
+      && !(timestamps.allowOverride && (data as DocumentData)[timestamps.createdAt] !== undefined);
+  }
+
+  /**
+   * Writes a set() within `transaction`, preparing the data like set(). With optimistic locking,
+   * managed createdAt fields, and for merge sets with soft deletes, the document is read first, so
+   * call this before the transaction's other writes.
+   */
+  async setInTransaction(transaction: Transaction, id: string, data: TAddData | Partial<TAddData>, options?: SetOptions): Promise<void> {
     const docRef = this.doc(id);
+    let dataToWrite = this.prepareWriteData(data, options);
+    let setOptions = this.prepareSetOptions(options) || {};
+    const locking = this.schema?.optimisticLocking;
+    if (locking) {
+      // The lock field in the caller's `data` is the value they read; undefined means a new document.
+      // Read it before managed timestamps replace it, since updateTime locking may share their field.
+      const lockField = getLockField(locking);
+      const expected = (data as DocumentData)[lockField];
+      dataToWrite = { ...dataToWrite, ...await checkLock(transaction, docRef, locking, expected) };
+      // mergeFields sets drop fields they do not list, which would leave the lock unchanged
+      setOptions = this.withMergeField(setOptions, lockField);
+    }
+    const createdAt = this.tracksCreationTime(data) ? this.schema?.timestamps?.createdAt : undefined;
+    const snapshot = createdAt !== undefined || this.requiresMarkerCheck(options) ? await transaction.get(docRef) : undefined;
+    if (createdAt !== undefined && snapshot) {
+      if (!snapshot.exists()) {
+        dataToWrite = { ...dataToWrite, [createdAt]: serverTimestamp() };
+        setOptions = this.withMergeField(setOptions, createdAt);
+      } else if (!this.isMergeSet(options) && snapshot.get(createdAt) !== undefined) {
+        // A full set replaces the whole document, so write its original creation time back
+        dataToWrite = { ...dataToWrite, [createdAt]: snapshot.get(createdAt) };
+      }
+    }
+    const softDelete = this.schema?.softDelete;
+    if (softDelete && this.requiresMarkerCheck(options) && !snapshot?.exists()) {
+      const field = getSoftDeleteField(softDelete);
+      dataToWrite = { [field]: null, ...dataToWrite };
+      setOptions = this.withMergeField(setOptions, field);
+    }
+    transaction.set(docRef, dataToWrite as Partial<TData>, setOptions);
+  }
 
-    // Determine if it's a merge operation
-    const isMerge = options && ('merge' in options && options.merge === true || 'mergeFields' in options);
+  /** Adds `field` to the `mergeFields` of set() options that have them. */
+  private withMergeField(options: SetOptions, field: string): SetOptions {
+    if (!('mergeFields' in options) || !options.mergeFields || options.mergeFields.includes(field)) {
+      return options;
+    }
+    return { ...options, mergeFields: [...options.mergeFields, field] };
+  }
 
-    // Apply defaults ONLY if it's NOT a merge operation (setting the whole document)
-    // We cast data to TAddData here because the overload guarantees it's the full type when !isMerge.
-    const dataToWrite = !isMerge ? this.applyDefaults(data as TAddData) : data;
+  /** Reads a document within `transaction`, hiding it like get() if it is soft-deleted. */
+  async getInTransaction(transaction: Transaction, id: string): Promise<TData | undefined> {
+    const snapshot: DocumentSnapshot<TData> = await transaction.get(this.doc(id));
+    return this.hideDeleted(snapshot.exists() ? snapshot.data() : undefined);
+  }
 
-    // Use top-level setDoc function
-    // Cast dataToWrite to Partial<TData> which is compatible with setDoc's expectation for merge operations.
-    await setDoc(docRef, dataToWrite as Partial<TData>, options || {});
+  /**
+   * Deletes a document within `transaction` like delete(). With soft deletes the document is read
+   * first so a missing one stays a no-op, so call this before the transaction's other writes.
+   */
+  async deleteInTransaction(transaction: Transaction, id: string): Promise<void> {
+    const docRef = this.doc(id);
+    const softDelete = this.schema?.softDelete;
+    if (!softDelete) {
+      transaction.delete(docRef);
+    } else if ((await transaction.get(docRef)).exists()) {
+      transaction.update(docRef, this.prepareMarkerUpdate(softDelete, serverTimestamp()));
+    }
   }
 
-  /** Deletes a document. */
+  /**
+   * Deletes a document. With soft deletes enabled in the schema, sets its marker field to the
+   * server time instead; deleting a document that does not exist is a no-op either way.
+   */
   async delete(id: string): Promise<void> {
+    const softDelete = this.schema?.softDelete;
+    if (!softDelete) {
+      return this.purge(id);
+    }
+    try {
+      await updateDoc(this.doc(id), this.prepareMarkerUpdate(softDelete, serverTimestamp()));
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'not-found') throw error;
+    }
+    await this.invalidateCache();
+  }
+
+  /** Clears the soft-delete marker of a document, making it visible again. */
+  async restore(id: string): Promise<void> {
+    const softDelete = this.schema?.softDelete;
+    if (!softDelete) {
+      throw new Error(`Collection '${this.ref.path}' does not use soft deletes.`);
+    }
+    await updateDoc(this.doc(id), this.prepareMarkerUpdate(softDelete, null));
+    await this.invalidateCache();
+  }
+
+  /** Permanently deletes a document, even when the schema enables soft deletes. */
+  async purge(id: string): Promise<void> {
     const docRef = this.doc(id);
     // Use top-level deleteDoc function
     await deleteDoc(docRef);
+    await this.invalidateCache();
+  }
+
+  /**
+   * Permanently deletes a document and every document below it in the sub-collections declared by
+   * the schema (recursively through sub-schemas). Descendants are deleted before their parents, in
+   * batches, so an interrupted delete never leaves orphans behind. Undeclared sub-collections are
+   * not discovered and stay in place.
+   */
+  async deleteRecursive(id: string, options: RecursiveDeleteOptions = {}): Promise<RecursiveDeleteResult> {
+    const refs = [...await this.collectDescendants(id), this.doc(id)];
+    const paths = refs.map(ref => ref.path);
+    if (options.dryRun) {
+      return { paths, deletedCount: 0, dryRun: true };
+    }
+    const deletedCount = await deleteInBatches(this.firestore, refs, options);
+    await invalidateWrittenCollections(this.firestore, refs);
+    return { paths, deletedCount, dryRun: false };
+  }
+
+  /** Every document in the schema's sub-collections below a document, descendants first. */
+  protected async collectDescendants(id: string): Promise<Array<DocumentReference<DocumentData>>> {
+    const refs: Array<DocumentReference<DocumentData>> = [];
+    for (const subCollectionId of Object.keys(this.schema?.subCollections ?? {})) {
+      const subCollection: ClientBaseCollectionRef<DocumentData, DocumentData> = this.subCollection(id, subCollectionId);
+      // Read raw documents, including soft-deleted ones, since they are removed too
+      const snapshot = await getDocs(subCollection.ref);
+      for (const docSnap of snapshot.docs) {
+        refs.push(...await subCollection.collectDescendants(docSnap.id), docSnap.ref);
+      }
+    }
+    return refs;
+  }
+
+  /**
+   * Copies a document and every document in its schema-declared sub-collections (recursively) to
+   * `toId`, in `options.target` or this collection. Data is copied as stored: defaults, validation
+   * and managed timestamps are not applied. Fails with a DocumentExistsError if the target
+   * document exists, unless `options.overwrite` is set.
+   */
+  async copy(fromId: string, toId: string, options: CopyOptions<TData, TAddData> = {}): Promise<CopyResult<TData>> {
+    const target = options.target ?? this;
+    const sourceRef = this.doc(fromId);
+    const targetRef = target.doc(toId);
+    if (sourceRef.path === targetRef.path) {
+      throw new Error(`Cannot copy document '${sourceRef.path}' onto itself.`);
+    }
+    const [source, existing] = await Promise.all([getDoc(sourceRef), options.overwrite ? undefined : getDoc(targetRef)]);
+    if (!source.exists()) {
+      throw new Error(`Document '${sourceRef.path}' does not exist.`);
+    }
+    if (existing?.exists()) {
+      throw new DocumentExistsError(targetRef.path);
+    }
+
+    const writes: PlannedCopyWrite[] = [
+      { ref: targetRef, data: source.data() },
+      ...await this.planSubCollectionCopy(fromId, target, toId),
+    ];
+    await commitInBatches(this.firestore, writes, (batch, write) => batch.set(write.ref, write.data), {
+      batchSize: options.batchSize,
+      onProgress: options.onProgress && ((copied, total) => options.onProgress?.({ copied, total })),
+    });
+    await invalidateWrittenCollections(this.firestore, writes.map(write => write.ref));
+    return { ref: targetRef, paths: writes.map(write => write.ref.path) };
+  }
+
+  /**
+   * Moves a document and its schema-declared sub-collection trees to `toId`: copies them with
+   * copy(), then deletes the source tree with deleteRecursive() only once the copy succeeded.
+   */
+  async move(fromId: string, toId: string, options: CopyOptions<TData, TAddData> = {}): Promise<CopyResult<TData>> {
+    const result = await this.copy(fromId, toId, options);
+    await this.deleteRecursive(fromId, { batchSize: options.batchSize });
+    return result;
+  }
+
+  /** The writes copying every document below `fromId` to the same place below `toId` in `target`. */
+  protected async planSubCollectionCopy(
+    fromId: string,
+    target: ClientBaseCollectionRef<DocumentData, DocumentData>,
+    toId: string
+  ): Promise<PlannedCopyWrite[]> {
+    const writes: PlannedCopyWrite[] = [];
+    for (const subCollectionId of Object.keys(this.schema?.subCollections ?? {})) {
+      // Resolve both sides through subCollection() so each uses its own schema and class
+      const source: ClientBaseCollectionRef<DocumentData, DocumentData> = this.subCollection(fromId, subCollectionId);
+      const destination: ClientBaseCollectionRef<DocumentData, DocumentData> = target.subCollection(toId, subCollectionId);
+      const snapshot = await getDocs(source.ref);
+      for (const docSnap of snapshot.docs) {
+        writes.push(
+          { ref: destination.doc(docSnap.id), data: docSnap.data() },
+          ...await source.planSubCollectionCopy(docSnap.id, destination, docSnap.id)
+        );
+      }
+    }
+    return writes;
+  }
+
+  /** The update that sets a document's soft-delete marker, plus any managed update timestamp. */
+  private prepareMarkerUpdate(softDelete: SoftDeleteConfig, value: FieldValue | null): DocumentData {
+    const update = { [getSoftDeleteField(softDelete)]: value };
+    return this.schema?.timestamps ? applyManagedTimestamps(update, this.schema.timestamps, 'update') : update;
+  }
+
+  /** Drops this collection's cached reads after a write, when read caching is enabled. */
+  protected async invalidateCache(): Promise<void> {
+    await getReadCache(this.firestore)?.invalidateCollection(this.ref.path);
+  }
+
+  /**
+   * Reads a single document. `options.source` selects the SDK default, the local cache or the
+   * server; only default reads go through read batching and the read cache.
+   */
+  async get(id: string, options?: ReadOptions): Promise<TData | undefined> {
+    if (!isDefaultRead(options) || this.includeDeleted) {
+      return this.hideDeleted(await this.fetchDoc(id, options));
+    }
+    const load = () => {
+      // Reads issued in the same tick are merged into one getMany() when batching is enabled
+      const batcher = getReadBatcher(this.firestore);
+      return batcher ? batcher.load(this, id) : this.fetchDoc(id);
+    };
+    const cache = getReadCache(this.firestore);
+    const data = cache
+      ? await cache.getOrLoad({ collectionId: this.ref.id, collectionPath: this.ref.path }, `doc:${this.doc(id).path}`, load)
+      : await load();
+    return this.hideDeleted(data);
+  }
+
+  /** Reads a single document from the selected source, bypassing read batching and the read cache. */
+  protected async fetchDoc(id: string, options?: ReadOptions): Promise<TData | undefined> {
+    const docRef = this.doc(id);
+    // Identical concurrent reads share one SDK call when coalescing is enabled
+    return coalesceRequest(this.firestore, () => `doc:${describeReadOptions(options)}:${docRef.path}`, async () => {
+      const snapshot = await getDocFromSource(docRef, options);
+      return snapshot?.exists() ? snapshot.data() : undefined;
+    });
+  }
+
+  /**
+   * Reads several documents in parallel, at most `options.concurrency` at a time.
+   * Results follow the order of `ids` (duplicates included); missing and hidden soft-deleted
+   * documents are `undefined`.
+   */
+  async getMany(ids: ReadonlyArray<string>, options: GetManyOptions = {}): Promise<Array<TData | undefined>> {
+    const uniqueIds = Array.from(new Set(ids));
+    const concurrency = options.concurrency ?? DEFAULT_READ_CONCURRENCY;
+    const found = new Map<string, TData>();
+
+    if (options.useQueries) {
+      const chunks: string[][] = [];
+      for (let i = 0; i < uniqueIds.length; i += MAX_DISJUNCTION_VALUES) {
+        chunks.push(uniqueIds.slice(i, i + MAX_DISJUNCTION_VALUES));
+      }
+      await mapWithConcurrency(chunks, concurrency, async chunkIds => {
+        // Use top-level query/where/documentId functions
+        const snapshot: QuerySnapshot<TData> = await getDocs(query(this.ref, where(documentId(), 'in', chunkIds)));
+        snapshot.docs.forEach(docSnap => found.set(docSnap.id, docSnap.data()));
+      });
+    } else {
+      await mapWithConcurrency(uniqueIds, concurrency, async id => {
+        const data = await this.fetchDoc(id);
+        if (data !== undefined) {
+          found.set(id, data);
+        }
+      });
+    }
+    return ids.map(id => this.hideDeleted(found.get(id)));
   }
 
-  /** Reads a single document. */
-  async get(id: string): Promise<TData | undefined> {
+  /** Reads a single document, returning its data together with its ID, reference and metadata. */
+  async getDoc(id: string): Promise<DocumentEnvelope<TData>> {
+    const snapshot: DocumentSnapshot<TData> = await getDoc(this.doc(id));
+    const envelope = toDocumentEnvelope(snapshot);
+    if (envelope.exists && this.hideDeleted(envelope.data) === undefined) {
+      return { ...envelope, data: undefined, exists: false };
+    }
+    return envelope;
+  }
+
+  /**
+   * Listens to a single document in real time.
+   * `onNext` receives the document data, or `undefined` if the document does not exist.
+   * Returns a function that cancels the listener.
+   */
+  onDoc(
+    id: string,
+    onNext: (data: TData | undefined) => void,
+    onError?: (error: FirestoreError) => void
+  ): Unsubscribe {
     const docRef = this.doc(id);
-    // Use top-level getDoc function
-    const snapshot: DocumentSnapshot<TData> = await getDoc(docRef);
-    return snapshot.exists() ? snapshot.data() : undefined;
+    // Use top-level onSnapshot function
+    return onSnapshot(
+      docRef,
+      (snapshot: DocumentSnapshot<TData>) => onNext(this.hideDeleted(snapshot.exists() ? snapshot.data() : undefined)),
+      onError
+    );
+  }
+
+  /**
+   * Listens to every document in the collection in real time.
+   * Use a query builder's `onSnapshot()` to listen to a filtered subset.
+   * Returns a function that cancels the listener.
+   */
+  onSnapshot(
+    onNext: (data: TData[]) => void,
+    onError?: (error: FirestoreError) => void
+  ): Unsubscribe {
+    return onSnapshot(
+      this.ref,
+      (snapshot: QuerySnapshot<TData>) => onNext(
+        snapshot.docs.map(docSnap => docSnap.data()).filter(data => this.hideDeleted(data) !== undefined)
+      ),
+      onError
+    );
   }
 
   /**
@@ -176,4 +762,29 @@ export class ClientBaseCollectionRef<
         parentDocRef // Pass parentRef
     );
   }
-}
\ No newline at end of file
+
+  /**
+   * Creates a query builder over every sub-collection named `subCollectionId`, across all parents
+   * in the database (not only documents of this collection). Use `getDocs()` on the builder to get
+   * each hit's `parentPath`. Pass the generated query builder class to get its typed methods.
+   */
+  public collectionGroup<
+    SubTData extends DocumentData,
+    TBuilder extends ClientBaseQueryBuilder<SubTData> = ClientBaseQueryBuilder<SubTData>
+  >(
+    subCollectionId: string,
+    QueryBuilderClass?: new (firestore: Firestore, ref: Query<SubTData>, options?: ClientQueryBuilderOptions) => TBuilder
+  ): TBuilder {
+    if (!this.schema?.subCollections || !this.schema.subCollections[subCollectionId]) {
+      throw new Error(`Sub-collection '${subCollectionId}' not found in schema for collection '${this.ref.id}'`);
+    }
+    // Use top-level collectionGroup function
+    const groupQuery = collectionGroup(this.firestore, subCollectionId) as Query<SubTData>;
+    const BuilderClass = QueryBuilderClass ?? ClientBaseQueryBuilder;
+    const subSchema = this.schema.subCollections[subCollectionId].schema;
+    return new BuilderClass(this.firestore, groupQuery, {
+      softDelete: subSchema?.softDelete,
+      collectionGroupId: subCollectionId,
+    }) as TBuilder;
+  }
+}
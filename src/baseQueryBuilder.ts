@@ -6,9 +6,14 @@ import type {
   CollectionReference,
   Query,
   QueryConstraint,
-  DocumentSnapshot,
+  QueryFilterConstraint,
+  QueryCompositeFilterConstraint,
+  QueryNonFilterConstraint,
   DocumentData,
   QuerySnapshot,
+  FirestoreError,
+  Unsubscribe,
+  AggregateField,
   WhereFilterOp,
   OrderByDirection,
 } from 'firebase/firestore';
@@ -17,6 +22,8 @@ import type {
 import {
   query,
   where,
+  or,
+  and,
   orderBy,
   limit,
   limitToLast,
@@ -24,46 +31,179 @@ import {
   startAfter,
   endAt,
   endBefore,
-  getDocs,
+  onSnapshot,
+  getAggregateFromServer,
+  count,
+  sum,
+  average,
+  DocumentSnapshot,
 } from 'firebase/firestore';
 
+import { toQueryDocumentEnvelope } from './documentEnvelope';
+import { ClientQueryPaginator } from './paginator';
+import { planFanOut, mergeFanOutResults } from './fanOut';
+import type { FanOutPlan } from './fanOut';
+import { validateQueryConstraints, getInequalityFieldPaths } from './queryValidation';
+import { serializeConstraint, deserializeConstraint, stableStringify } from './serialization';
+import type { SerializedQuery, SerializedConstraint } from './serialization';
+import { DOCUMENT_ID_FIELD } from './firestoreOrdering';
+import { evaluateQuery } from './localQuery';
+import type { LocalQueryOptions } from './localQuery';
+import { coalesceRequest } from './requestCoalescing';
+import { getReadCache } from './readCache';
+import type { ReadCacheScope } from './readCache';
+import { getDocsFromSource, isDefaultRead, describeReadOptions } from './readSource';
+import type { ReadOptions } from './readSource';
+import type { QueryDocumentEnvelope } from './documentEnvelope';
+import { getSoftDeleteField } from './softDelete';
+import type { SoftDeleteConfig } from './softDelete';
+
 // Define local types for constraints (can be simple for now)
 export type ClientWhereFilterOp = WhereFilterOp;
 export type ClientOrderByDirection = OrderByDirection;
 
 // Internal constraint definition structure
-type ConstraintType = 'where' | 'orderBy' | 'limit' | 'limitToLast' | 'startAt' | 'startAfter' | 'endAt' | 'endBefore';
+type ConstraintType = 'where' | 'or' | 'and' | 'orderBy' | 'limit' | 'limitToLast' | 'startAt' | 'startAfter' | 'endAt' | 'endBefore';
 interface BaseConstraint { type: ConstraintType; }
 interface WhereConstraint extends BaseConstraint { type: 'where'; fieldPath: string; opStr: ClientWhereFilterOp; value: any; }
+interface CompositeConstraint extends BaseConstraint { type: 'or' | 'and'; filters: FilterConstraintDefinition[]; }
+type FilterConstraintDefinition = WhereConstraint | CompositeConstraint;
 interface OrderByConstraint extends BaseConstraint { type: 'orderBy'; fieldPath: string; directionStr: ClientOrderByDirection; }
 interface LimitConstraint extends BaseConstraint { type: 'limit' | 'limitToLast'; limitCount: number; }
 interface CursorConstraint extends BaseConstraint { type: 'startAt' | 'startAfter' | 'endAt' | 'endBefore'; snapshotOrFieldValue: any; fieldValues: unknown[]; }
-type QueryConstraintDefinition = WhereConstraint | OrderByConstraint | LimitConstraint | CursorConstraint;
+export type QueryConstraintDefinition = FilterConstraintDefinition | OrderByConstraint | LimitConstraint | CursorConstraint;
+
+function isFilterDefinition(def: QueryConstraintDefinition): def is FilterConstraintDefinition {
+  return def.type === 'where' || def.type === 'or' || def.type === 'and';
+}
+
+/** Translates a (possibly nested) filter definition into an SDK filter constraint. */
+function buildFilterConstraint(def: FilterConstraintDefinition): QueryFilterConstraint {
+  switch (def.type) {
+    case 'where': return where(def.fieldPath, def.opStr, def.value);
+    case 'or':    return or(...def.filters.map(buildFilterConstraint));
+    case 'and':   return and(...def.filters.map(buildFilterConstraint));
+  }
+}
 
+/** Top-level keys of TData whose values are numbers. */
+export type NumericFieldPath<TData> = {
+  [K in keyof TData]-?: NonNullable<TData[K]> extends number ? K : never;
+}[keyof TData] & string;
+
+/** A single aggregation for aggregate(). */
+export type ClientAggregateField<TData> =
+  | { op: 'count' }
+  | { op: 'sum'; field: NumericFieldPath<TData> }
+  | { op: 'average'; field: NumericFieldPath<TData> };
+
+export type ClientAggregateSpec<TData> = Record<string, ClientAggregateField<TData>>;
+
+/** Result of aggregate(): averages are null when no documents have a numeric value for the field. */
+export type ClientAggregateResult<TSpec extends ClientAggregateSpec<any>> = {
+  [K in keyof TSpec]: TSpec[K] extends { op: 'average' } ? number | null : number;
+};
+
+/** Schema-derived options collections pass to the query builders they create. */
+export interface ClientQueryBuilderOptions {
+  /**
+   * The collection schema's soft-delete configuration, if any. Builders then start with a
+   * `<field> == null` filter that withDeleted() removes.
+   */
+  softDelete?: SoftDeleteConfig;
+  /** ID of the collection group a collection group query spans, for its query and cache keys. */
+  collectionGroupId?: string;
+}
 
 export class ClientBaseQueryBuilder<TData extends DocumentData> {
   protected firestore: Firestore;
-  protected collectionRef: CollectionReference<TData>;
+  /** The collection, or a collection group query, that constraints are applied to. */
+  protected collectionRef: CollectionReference<TData> | Query<TData>;
   protected constraintDefinitions: QueryConstraintDefinition[] = [];
+  protected softDelete?: SoftDeleteConfig;
+  protected collectionGroupId?: string;
 
-  constructor(firestore: Firestore, collectionRef: CollectionReference<TData>) {
+  constructor(
+    firestore: Firestore,
+    collectionRef: CollectionReference<TData> | Query<TData>,
+    options: ClientQueryBuilderOptions = {}
+  ) {
     this.firestore = firestore;
     this.collectionRef = collectionRef;
+    this.softDelete = options.softDelete;
+    this.collectionGroupId = options.collectionGroupId;
+    if (this.softDelete) {
+      this.constraintDefinitions = [{ type: 'where', fieldPath: getSoftDeleteField(this.softDelete), opStr: '==', value: null }];
+    }
   }
 
-  /** Adds a constraint definition immutably. */
-  protected addConstraintDefinition(definition: QueryConstraintDefinition): this {
+  /** Returns the constraint definitions accumulated so far, in the order they were added. */
+  getConstraintDefinitions(): ReadonlyArray<QueryConstraintDefinition> {
+    return this.constraintDefinitions;
+  }
+
+  /** Returns a copy of this builder with the given constraint definitions. */
+  protected withConstraintDefinitions(definitions: QueryConstraintDefinition[]): this {
     const newBuilder = Object.create(Object.getPrototypeOf(this));
     Object.assign(newBuilder, this);
-    newBuilder.constraintDefinitions = [...this.constraintDefinitions, definition];
+    newBuilder.constraintDefinitions = definitions;
     return newBuilder;
   }
 
+  /** Adds a constraint definition immutably. */
+  protected addConstraintDefinition(definition: QueryConstraintDefinition): this {
+    return this.withConstraintDefinitions([...this.constraintDefinitions, definition]);
+  }
+
   /** Protected helper to add a 'where' constraint. */
   protected _where(fieldPath: string, opStr: ClientWhereFilterOp, value: any): this {
     return this.addConstraintDefinition({ type: 'where', fieldPath, opStr, value });
   }
 
+  /**
+   * Collects the filters added by each branch callback into a single filter definition.
+   * Each branch starts from an unfiltered builder; several filters within one branch are ANDed.
+   */
+  protected collectFilterBranches(branches: Array<(builder: this) => this>): FilterConstraintDefinition[] {
+    const emptyBuilder = this.withConstraintDefinitions([]);
+
+    return branches.map(branch => {
+      const definitions = branch(emptyBuilder).constraintDefinitions;
+      if (definitions.length === 0 || !definitions.every(isFilterDefinition)) {
+        throw new Error('Composite filter branches must add at least one filter and only filters (where/or/and).');
+      }
+      const filters = definitions as FilterConstraintDefinition[];
+      return filters.length === 1 ? filters[0] : { type: 'and', filters };
+    });
+  }
+
+  /**
+   * Adds a filter group matching documents that satisfy ANY of the branches.
+   * e.g. `builder.or(q => q.whereStatus('==', 'open'), q => q.whereAssignee('==', me))`
+   */
+  or(...branches: Array<(builder: this) => this>): this {
+    return this.addConstraintDefinition({ type: 'or', filters: this.collectFilterBranches(branches) });
+  }
+
+  /** Adds a filter group matching documents that satisfy ALL of the branches. Useful inside or(). */
+  and(...branches: Array<(builder: this) => this>): this {
+    return this.addConstraintDefinition({ type: 'and', filters: this.collectFilterBranches(branches) });
+  }
+
+  /**
+   * Returns a copy of this builder that also matches soft-deleted documents, by removing the
+   * soft-delete filter the builder started with.
+   */
+  withDeleted(): this {
+    if (!this.softDelete) {
+      return this;
+    }
+    const field = getSoftDeleteField(this.softDelete);
+    return this.withConstraintDefinitions(this.constraintDefinitions.filter(
+      def => !(def.type === 'where' && def.fieldPath === field && def.opStr === '==' && def.value === null)
+    ));
+  }
+
   /** Adds an orderBy clause. */
   orderBy(
     fieldPath: keyof TData | string,
@@ -98,35 +238,265 @@ export class ClientBaseQueryBuilder<TData extends DocumentData> {
 
   // --- Execution ---
 
-  /** Builds the final Firestore Query object. */
+  /**
+   * Builds the final Firestore Query object.
+   * Throws a QueryValidationError if the constraints break Firestore's query rules.
+   */
   buildQuery(): Query<TData> {
-    const clientConstraints: QueryConstraint[] = this.constraintDefinitions.map(def => {
-      switch (def.type) {
-        case 'where':       return where(def.fieldPath, def.opStr, def.value);
-        case 'orderBy':     return orderBy(def.fieldPath, def.directionStr);
-        case 'limit':       return limit(def.limitCount);
-        case 'limitToLast': return limitToLast(def.limitCount);
-        case 'startAt':     return startAt(def.snapshotOrFieldValue, ...def.fieldValues);
-        case 'startAfter':  return startAfter(def.snapshotOrFieldValue, ...def.fieldValues);
-        case 'endAt':       return endAt(def.snapshotOrFieldValue, ...def.fieldValues);
-        case 'endBefore':   return endBefore(def.snapshotOrFieldValue, ...def.fieldValues);
-        default: throw new Error(`Unsupported client constraint type: ${(def as any).type}`);
-      }
-    });
+    validateQueryConstraints(this.constraintDefinitions);
+    const hasCompositeFilter = this.constraintDefinitions.some(def => def.type === 'or' || def.type === 'and');
+    if (hasCompositeFilter) {
+      // The SDK only accepts one composite filter followed by non-filter constraints,
+      // so every top-level filter is ANDed into a single composite.
+      const filters = this.constraintDefinitions.filter(isFilterDefinition).map(buildFilterConstraint);
+      const nonFilterConstraints = this.constraintDefinitions
+        .filter(def => !isFilterDefinition(def))
+        .map(def => this.buildConstraint(def)) as QueryNonFilterConstraint[];
+      const compositeFilter = filters.length === 1 ? filters[0] : and(...filters);
+      return query(this.collectionRef, compositeFilter as QueryCompositeFilterConstraint, ...nonFilterConstraints);
+    }
+
+    const clientConstraints: QueryConstraint[] = this.constraintDefinitions.map(def => this.buildConstraint(def));
     // Use top-level query function
     return query(this.collectionRef, ...clientConstraints);
   }
 
-  /** Executes the query and returns the QuerySnapshot. */
-  async getSnapshot(): Promise<QuerySnapshot<TData>> {
+  /** Translates a single non-composite constraint definition into its SDK constraint. */
+  protected buildConstraint(def: QueryConstraintDefinition): QueryConstraint {
+    switch (def.type) {
+      case 'where':       return where(def.fieldPath, def.opStr, def.value);
+      case 'orderBy':     return orderBy(def.fieldPath, def.directionStr);
+      case 'limit':       return limit(def.limitCount);
+      case 'limitToLast': return limitToLast(def.limitCount);
+      case 'startAt':     return startAt(def.snapshotOrFieldValue, ...def.fieldValues);
+      case 'startAfter':  return startAfter(def.snapshotOrFieldValue, ...def.fieldValues);
+      case 'endAt':       return endAt(def.snapshotOrFieldValue, ...def.fieldValues);
+      case 'endBefore':   return endBefore(def.snapshotOrFieldValue, ...def.fieldValues);
+      default: throw new Error(`Unsupported client constraint type: ${(def as any).type}`);
+    }
+  }
+
+  /**
+   * Executes the query and returns the QuerySnapshot.
+   * `options.source` selects the SDK default, the local cache or the server.
+   */
+  async getSnapshot(options?: ReadOptions): Promise<QuerySnapshot<TData>> {
     const q = this.buildQuery();
-    // Use top-level getDocs function
-    return getDocs(q);
+    return getDocsFromSource(q, options);
+  }
+
+  /**
+   * Executes the query and returns the matching documents' data.
+   * Oversized 'in' / 'array-contains-any' / 'not-in' filters are fanned out transparently.
+   * Only default-source reads go through the read cache.
+   */
+  async get(options?: ReadOptions): Promise<TData[]> {
+    const load = () => coalesceRequest(this.firestore, () => `get:${describeReadOptions(options)}:${this.getQueryKey()}`, async () => {
+      const plan = planFanOut(this.constraintDefinitions);
+      if (plan) {
+        const docs = await this.getDocsFannedOut(plan, options);
+        return docs.map(doc => doc.data);
+      }
+      const snapshot = await this.getSnapshot(options);
+      return snapshot.docs.map(doc => doc.data());
+    });
+    const cache = isDefaultRead(options) ? getReadCache(this.firestore) : undefined;
+    return cache ? cache.getOrLoad(this.getCacheScope(), `get:${this.getQueryKey()}`, load) : load();
   }
 
-  /** Executes the query and returns the matching documents' data. */
-  async get(): Promise<TData[]> {
-    const snapshot = await this.getSnapshot();
-    return snapshot.docs.map(doc => doc.data());
+  /** Executes the query and returns the matching documents with their IDs, references and metadata. */
+  async getDocs(options?: ReadOptions): Promise<QueryDocumentEnvelope<TData>[]> {
+    return coalesceRequest(this.firestore, () => `getDocs:${describeReadOptions(options)}:${this.getQueryKey()}`, async () => {
+      const plan = planFanOut(this.constraintDefinitions);
+      if (plan) {
+        return this.getDocsFannedOut(plan, options);
+      }
+      const snapshot = await this.getSnapshot(options);
+      return snapshot.docs.map(doc => toQueryDocumentEnvelope(doc));
+    });
+  }
+
+  /** Runs the plan's sub-queries in parallel and merges them into one result. */
+  protected async getDocsFannedOut(plan: FanOutPlan, options?: ReadOptions): Promise<QueryDocumentEnvelope<TData>[]> {
+    const results = await Promise.all(plan.queries.map(async definitions => {
+      const snapshot = await getDocsFromSource(this.withConstraintDefinitions(definitions).buildQuery(), options);
+      return snapshot.docs.map(doc => toQueryDocumentEnvelope(doc));
+    }));
+    return mergeFanOutResults(plan, results);
+  }
+
+  // --- Serialization ---
+
+  /**
+   * Returns a JSON-safe description of this query's constraints.
+   * Snapshot cursors are stored as the snapshot's values for the query's ordering.
+   */
+  toJSON(): SerializedQuery {
+    const constraints = this.constraintDefinitions.map(def => {
+      if ('snapshotOrFieldValue' in def && def.snapshotOrFieldValue instanceof DocumentSnapshot) {
+        const [first, ...rest] = this.getSnapshotCursorValues(def.snapshotOrFieldValue);
+        return serializeConstraint({ ...def, snapshotOrFieldValue: first, fieldValues: rest });
+      }
+      return serializeConstraint(def);
+    });
+    const path = this.collectionRef.type === 'collection' ? (this.collectionRef as CollectionReference<TData>).path : undefined;
+    return path !== undefined ? { version: 1, path, constraints } : { version: 1, constraints };
+  }
+
+  /**
+   * Recreates a builder from `toJSON()` output, applied to the given collection or collection group.
+   * Called on a generated subclass, it returns an instance of that subclass. Pass the options the
+   * collection creates its builders with (e.g. soft deletes) so withDeleted() and query keys work.
+   */
+  static fromJSON<TBuilder extends ClientBaseQueryBuilder<any>>(
+    this: new (firestore: Firestore, collectionRef: any, options?: ClientQueryBuilderOptions) => TBuilder,
+    collectionRef: CollectionReference<any> | Query<any>,
+    json: SerializedQuery | string,
+    options?: ClientQueryBuilderOptions
+  ): TBuilder {
+    const parsed: SerializedQuery = typeof json === 'string' ? JSON.parse(json) : json;
+    if (!parsed || parsed.version !== 1 || !Array.isArray(parsed.constraints)) {
+      throw new Error('Unsupported serialized query format.');
+    }
+    const builder = new this(collectionRef.firestore, collectionRef, options);
+    builder.constraintDefinitions = parsed.constraints.map(constraint => deserializeConstraint(constraint, collectionRef.firestore));
+    return builder;
+  }
+
+  /**
+   * Returns a stable key identifying this query: its collection (or collection group) and its
+   * constraints. Filter order does not affect the key; orderBy, cursor and limit order does.
+   */
+  getQueryKey(): string {
+    const { constraints } = this.toJSON();
+    const isFilter = (constraint: SerializedConstraint) =>
+      constraint.type === 'where' || constraint.type === 'or' || constraint.type === 'and';
+    const filters = constraints.filter(isFilter).map(stableStringify).sort();
+    const others = constraints.filter(constraint => !isFilter(constraint)).map(stableStringify);
+    return `${this.getSourceKey()}|${[...filters, ...others].join('|')}`;
+  }
+
+  /** Identifies the queried collection path, or the collection group. */
+  protected getSourceKey(): string {
+    if (this.collectionRef.type === 'collection') {
+      return (this.collectionRef as CollectionReference<TData>).path;
+    }
+    return `collectionGroup:${this.getCollectionGroupId()}`;
+  }
+
+  /** ID of the collection group this builder queries, as passed by the collection that created it. */
+  protected getCollectionGroupId(): string {
+    if (this.collectionGroupId === undefined) {
+      throw new Error('Cannot derive a query key: the query source is not a collection or collection group.');
+    }
+    return this.collectionGroupId;
+  }
+
+  /** The collection (or collection group) that cached results of this query belong to. */
+  protected getCacheScope(): ReadCacheScope {
+    if (this.collectionRef.type === 'collection') {
+      const ref = this.collectionRef as CollectionReference<TData>;
+      return { collectionId: ref.id, collectionPath: ref.path };
+    }
+    return { collectionId: this.getCollectionGroupId() };
+  }
+
+  /** Values of a snapshot for each field the query is ordered by, ending with its document ID. */
+  protected getSnapshotCursorValues(snapshot: DocumentSnapshot<TData>): unknown[] {
+    const explicitOrderBys = this.constraintDefinitions
+      .filter(def => def.type === 'orderBy')
+      .map(def => (def as Extract<QueryConstraintDefinition, { type: 'orderBy' }>).fieldPath);
+    const fieldPaths = explicitOrderBys.length > 0 ? explicitOrderBys : getInequalityFieldPaths(this.constraintDefinitions);
+    if (fieldPaths[fieldPaths.length - 1] !== DOCUMENT_ID_FIELD) {
+      fieldPaths.push(DOCUMENT_ID_FIELD);
+    }
+    return fieldPaths.map(fieldPath => {
+      if (fieldPath === DOCUMENT_ID_FIELD) {
+        return this.collectionRef.type === 'collection' ? snapshot.id : snapshot.ref.path;
+      }
+      return snapshot.get(fieldPath);
+    });
+  }
+
+  // --- Local Evaluation ---
+
+  /**
+   * Applies this query's constraints to already-loaded document data, returning the matching
+   * documents in query order. Document IDs default to full paths for collection group queries.
+   */
+  matchLocal(documents: ReadonlyArray<TData>, options: LocalQueryOptions<TData> = {}): TData[] {
+    const useDocumentPaths = options.useDocumentPaths ?? this.collectionRef.type !== 'collection';
+    return evaluateQuery(this.constraintDefinitions, documents, { ...options, useDocumentPaths });
+  }
+
+  // --- Pagination ---
+
+  /**
+   * Creates a paginator that fetches pages of `pageSize` documents of this query.
+   * The builder's filters and orderBy clauses are kept; limits and cursors are not allowed.
+   */
+  paginate(pageSize: number): ClientQueryPaginator<TData> {
+    const useDocumentPaths = this.collectionRef.type !== 'collection';
+    return new ClientQueryPaginator<TData>(this.firestore, this, pageSize, useDocumentPaths);
+  }
+
+  // --- Aggregations ---
+
+  /**
+   * Runs the given aggregations on the server over the documents matching this query,
+   * without downloading them.
+   */
+  async aggregate<TSpec extends ClientAggregateSpec<TData>>(spec: TSpec): Promise<ClientAggregateResult<TSpec>> {
+    const sdkSpec: Record<string, AggregateField<number | null>> = {};
+    for (const alias in spec) {
+      const field = spec[alias];
+      switch (field.op) {
+        case 'count':   sdkSpec[alias] = count(); break;
+        case 'sum':     sdkSpec[alias] = sum(field.field); break;
+        case 'average': sdkSpec[alias] = average(field.field); break;
+        default: throw new Error(`Unsupported aggregation: ${(field as any).op}`);
+      }
+    }
+    // Use top-level getAggregateFromServer function
+    const snapshot = await getAggregateFromServer(this.buildQuery(), sdkSpec);
+    return snapshot.data() as ClientAggregateResult<TSpec>;
+  }
+
+  /** Counts the documents matching this query on the server. */
+  async count(): Promise<number> {
+    const result = await this.aggregate({ count: { op: 'count' } });
+    return result.count;
+  }
+
+  /** Sums a numeric field over the documents matching this query. */
+  async sum(field: NumericFieldPath<TData>): Promise<number> {
+    const result = await this.aggregate({ sum: { op: 'sum', field } });
+    return result.sum;
+  }
+
+  /** Averages a numeric field over the documents matching this query, or null if there are none. */
+  async average(field: NumericFieldPath<TData>): Promise<number | null> {
+    const result = await this.aggregate({ average: { op: 'average', field } });
+    return result.average;
+  }
+
+  // --- Real-time Listeners ---
+
+  /**
+   * Listens to the query results in real time.
+   * `onNext` receives the matching documents' data on every change.
+   * Returns a function that cancels the listener.
+   */
+  onSnapshot(
+    onNext: (data: TData[]) => void,
+    onError?: (error: FirestoreError) => void
+  ): Unsubscribe {
+    const q = this.buildQuery();
+    // Use top-level onSnapshot function
+    return onSnapshot(
+      q,
+      (snapshot: QuerySnapshot<TData>) => onNext(snapshot.docs.map(doc => doc.data())),
+      onError
+    );
   }
-}
\ No newline at end of file
+}
@@ -4,12 +4,15 @@
 import type {
   DocumentReference,
   DocumentData,
+  Transaction,
   FieldValue, // Import FieldValue type
 } from 'firebase/firestore';
 
 // Import client static functions/values for updates
 import {
   updateDoc,
+  setDoc,
+  runTransaction,
   serverTimestamp,
   increment,
   arrayUnion,
@@ -17,12 +20,102 @@ import {
   deleteField,
 } from 'firebase/firestore';
 
+import { getReadCache } from './readCache';
+import { checkLock } from './optimisticLocking';
+import type { OptimisticLockingConfig } from './optimisticLocking';
+import { diffDocuments } from './updateDiff';
+import type { UpdateDiffOptions } from './updateDiff';
+import { applyManagedTimestamps } from './timestamps';
+import type { TimestampsConfig } from './timestamps';
+import { getSoftDeleteField } from './softDelete';
+import type { SoftDeleteConfig } from './softDelete';
+
+/**
+ * How commit() writes the accumulated updates: 'update' (updateDoc; fails if the document does
+ * not exist) or 'upsert' (setDoc with merge; creates the document if needed).
+ */
+export type ClientCommitMode = 'update' | 'upsert';
+
+export interface ClientCommitOptions {
+  /** Defaults to 'update'. */
+  mode?: ClientCommitMode;
+}
+
+/**
+ * Converts dot-notation update data into the nested object setDoc(..., { merge: true }) expects.
+ * FieldValue sentinels are kept as leaf values. Throws if one path is a prefix of another.
+ */
+export function toMergeSetData(updateData: Record<string, any>): Record<string, any> {
+  const paths = new Set(Object.keys(updateData));
+  for (const path of Array.from(paths)) {
+    const segments = path.split('.');
+    for (let length = 1; length < segments.length; length++) {
+      const ancestor = segments.slice(0, length).join('.');
+      if (paths.has(ancestor)) {
+        throw new Error(`Conflicting update paths '${ancestor}' and '${path}'.`);
+      }
+    }
+  }
+
+  const result: Record<string, any> = {};
+  for (const [fieldPath, value] of Object.entries(updateData)) {
+    const segments = fieldPath.split('.');
+    let target = result;
+    for (const segment of segments.slice(0, -1)) {
+      target[segment] ??= {};
+      target = target[segment];
+    }
+    target[segments[segments.length - 1]] = value;
+  }
+  return result;
+}
+
+export interface ClientUpdateBuilderOptions {
+  /** The collection schema's optimistic locking configuration, if any. */
+  optimisticLocking?: OptimisticLockingConfig;
+  /** The collection schema's managed timestamp fields, if any. */
+  timestamps?: TimestampsConfig;
+  /** The collection schema's soft-delete configuration, if any. */
+  softDelete?: SoftDeleteConfig;
+}
+
 export class ClientBaseUpdateBuilder<TData extends DocumentData> {
   protected _docRef: DocumentReference<TData>; // Use SDK's DocumentReference
   protected _updateData: Record<string, any> = {}; // Accumulator
+  protected _optimisticLocking?: OptimisticLockingConfig;
+  protected _timestamps?: TimestampsConfig;
+  protected _softDelete?: SoftDeleteConfig;
+  /** Lock value the update is based on, set by ifMatch(). */
+  protected _expectedLock?: { value: unknown };
 
-  constructor(docRef: DocumentReference<TData>) {
+  constructor(docRef: DocumentReference<TData>, options: ClientUpdateBuilderOptions = {}) {
     this._docRef = docRef;
+    this._optimisticLocking = options.optimisticLocking;
+    this._timestamps = options.timestamps;
+    this._softDelete = options.softDelete;
+  }
+
+  /** The document this builder updates. */
+  get docRef(): DocumentReference<TData> {
+    return this._docRef;
+  }
+
+  /**
+   * True if writing the updates requires reading the document's lock field first, so they can only
+   * be committed by commit() or within a transaction, not in a write batch.
+   */
+  get requiresLockCheck(): boolean {
+    return this._optimisticLocking !== undefined;
+  }
+
+  /**
+   * A copy of the accumulated field updates, keyed by dot-notation field path, with any managed
+   * timestamp fields applied. This is what commit() writes.
+   */
+  get updateData(): Record<string, any> {
+    return this._timestamps
+      ? applyManagedTimestamps(this._updateData, this._timestamps, 'update')
+      : { ...this._updateData };
   }
 
   /** Protected method to add an update operation. */
@@ -33,6 +126,18 @@ export class ClientBaseUpdateBuilder<TData extends DocumentData> {
     return newBuilder;
   }
 
+  /**
+   * Makes the commit fail with a ConflictError unless the document's lock field still holds
+   * `lockValue` (the version or update time read with the document). Required when the
+   * collection uses optimistic locking.
+   */
+  ifMatch(lockValue: unknown): this {
+    const newBuilder = Object.create(Object.getPrototypeOf(this));
+    Object.assign(newBuilder, this);
+    newBuilder._expectedLock = { value: lockValue };
+    return newBuilder;
+  }
+
   // --- FieldValue Helper Implementations ---
 
   protected _getIncrementFieldValue(value: number): FieldValue {
@@ -69,16 +174,86 @@ export class ClientBaseUpdateBuilder<TData extends DocumentData> {
     return this._set(fieldPath, this._getDeleteFieldValue());
   }
 
+  /**
+   * Adds the updates that turn `original` into `modified`: only changed leaf paths are set,
+   * removed fields are deleted, and with `arrayOps` pure array additions/removals become
+   * arrayUnion/arrayRemove. Lets a form's original and edited copies commit as a minimal patch.
+   */
+  applyDiff(original: Partial<TData>, modified: Partial<TData>, options?: UpdateDiffOptions): this {
+    return diffDocuments(original, modified, options).reduce<this>((builder, operation) => {
+      switch (operation.type) {
+        case 'set':         return builder._set(operation.fieldPath, operation.value);
+        case 'delete':      return builder._deleteField(operation.fieldPath);
+        case 'arrayUnion':  return builder._arrayUnion(operation.fieldPath, operation.values);
+        case 'arrayRemove': return builder._arrayRemove(operation.fieldPath, operation.values);
+      }
+    }, this);
+  }
+
   // --- Commit Method ---
 
-  async commit(): Promise<void> {
+  /**
+   * Writes the accumulated updates. In 'upsert' mode the document is created if it does not exist;
+   * map values are then merged into existing maps rather than replacing them. With a managed
+   * createdAt field or soft deletes, upserts read the document in a transaction so createdAt and
+   * the null soft-delete marker are only written when the upsert creates the document.
+   */
+  async commit(options: ClientCommitOptions = {}): Promise<void> {
     if (Object.keys(this._updateData).length === 0) {
       console.warn('Update commit called with no changes specified.');
       return Promise.resolve();
     }
-    // Use top-level updateDoc function
-    await updateDoc(this._docRef, this._updateData);
+    const updateData = this.updateData;
+    if (this._optimisticLocking || (options.mode === 'upsert' && this.hasCreationFields)) {
+      // Lock checks and creation-only fields depend on the stored document, so the write runs in a transaction
+      // Use top-level runTransaction function
+      await runTransaction(this._docRef.firestore, transaction => this.applyInTransaction(transaction, options));
+    } else if (options.mode === 'upsert') {
+      // Use top-level setDoc function
+      await setDoc(this._docRef, toMergeSetData(updateData), { merge: true });
+    } else {
+      // Use top-level updateDoc function
+      await updateDoc(this._docRef, updateData);
+    }
+    await getReadCache(this._docRef.firestore)?.invalidateCollection(this._docRef.parent.path);
     // Optional: Clear data after commit
     // this._updateData = {};
   }
+
+  /** True if an upsert that creates the document must also write fields only set on creation. */
+  protected get hasCreationFields(): boolean {
+    return this._timestamps?.createdAt !== undefined || this._softDelete !== undefined;
+  }
+
+  /** The updates written when an upsert creates the document, with createdAt and the soft-delete marker set. */
+  protected getCreationData(): Record<string, any> {
+    const data = this._timestamps ? applyManagedTimestamps(this._updateData, this._timestamps, 'create') : { ...this._updateData };
+    return this._softDelete ? { [getSoftDeleteField(this._softDelete)]: null, ...data } : data;
+  }
+
+  /**
+   * Writes the accumulated updates within `transaction`. With optimistic locking the document is
+   * read first, so call this before the transaction's other writes.
+   */
+  async applyInTransaction(transaction: Transaction, options: ClientCommitOptions = {}): Promise<void> {
+    let dataToWrite = this.updateData;
+    if (this._optimisticLocking) {
+      if (!this._expectedLock) {
+        throw new Error(`Updates to '${this._docRef.path}' require ifMatch() with the lock value read from the document.`);
+      }
+      const lockUpdate = await checkLock(transaction, this._docRef, this._optimisticLocking, this._expectedLock.value);
+      dataToWrite = { ...dataToWrite, ...lockUpdate };
+    }
+    if (options.mode === 'upsert') {
+      if (this.hasCreationFields) {
+        const snapshot = await transaction.get(this._docRef);
+        if (!snapshot.exists()) {
+          dataToWrite = { ...this.getCreationData(), ...dataToWrite };
+        }
+      }
+      transaction.set(this._docRef, toMergeSetData(dataToWrite), { merge: true });
+    } else {
+      transaction.update(this._docRef, dataToWrite);
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,260 @@
+/**
+ * Typed batched writes with automatic chunking, using Firebase JS Client SDK v9+.
+ */
+import type {
+  Firestore,
+  WriteBatch,
+  DocumentReference,
+  DocumentData,
+  SetOptions,
+} from 'firebase/firestore';
+
+// Import client functions
+import { writeBatch } from 'firebase/firestore';
+
+import { invalidateWrittenCollections } from './readCache';
+import type { ClientBaseCollectionRef } from './baseCollection';
+import type { ClientBaseUpdateBuilder } from './baseUpdateBuilder';
+
+/** Firestore's maximum number of writes in a single batch. */
+export const MAX_BATCH_SIZE = 500;
+
+export type BatchOperationType = 'add' | 'set' | 'update' | 'delete';
+
+/** A queued write, as reported back in commit results. */
+export interface BatchOperation {
+  type: BatchOperationType;
+  ref: DocumentReference<DocumentData>;
+}
+
+interface QueuedOperation extends BatchOperation {
+  apply: (batch: WriteBatch) => void;
+}
+
+/** Outcome of committing one chunk of operations. */
+export interface BatchChunkResult {
+  index: number;
+  operations: BatchOperation[];
+  success: boolean;
+  /** True if the chunk was not attempted because an earlier chunk failed with `stopOnError`. */
+  skipped?: boolean;
+  error?: unknown;
+}
+
+/** Outcome of committing every chunk. Failed chunks can be retried from their `operations`. */
+export interface BatchCommitResult {
+  chunks: BatchChunkResult[];
+  successCount: number;
+  failureCount: number;
+}
+
+export interface BatchWriterOptions {
+  /** Maximum operations per committed batch. Defaults to (and cannot exceed) 500. */
+  maxBatchSize?: number;
+  /** Stop committing further chunks after the first failure. Defaults to false. */
+  stopOnError?: boolean;
+}
+
+/**
+ * Commits one write per item, in order, in batches of at most `batchSize` (capped at 500).
+ * Batches commit one after another, so a failure leaves the writes of later items unapplied.
+ * `onProgress` is called after each committed batch. Resolves to the number of items written.
+ */
+export async function commitInBatches<TItem>(
+  firestore: Firestore,
+  items: ReadonlyArray<TItem>,
+  apply: (batch: WriteBatch, item: TItem) => void,
+  options: { batchSize?: number; onProgress?: (done: number, total: number) => void } = {}
+): Promise<number> {
+  const batchSize = Math.min(options.batchSize ?? MAX_BATCH_SIZE, MAX_BATCH_SIZE);
+  if (batchSize < 1) {
+    throw new Error(`Invalid batchSize: ${options.batchSize}`);
+  }
+  let done = 0;
+  for (let start = 0; start < items.length; start += batchSize) {
+    const chunk = items.slice(start, start + batchSize);
+    // Use top-level writeBatch function
+    const batch = writeBatch(firestore);
+    chunk.forEach(item => apply(batch, item));
+    await batch.commit();
+    done += chunk.length;
+    options.onProgress?.(done, items.length);
+  }
+  return done;
+}
+
+/**
+ * Collects typed writes from any collection ref or update builder and commits them
+ * in as many batches as needed. Data is prepared (defaults + validation) when queued.
+ */
+export class ClientBatchWriter {
+  protected firestore: Firestore;
+  protected maxBatchSize: number;
+  protected stopOnError: boolean;
+  protected operations: QueuedOperation[] = [];
+
+  constructor(firestore: Firestore, options: BatchWriterOptions = {}) {
+    this.firestore = firestore;
+    this.maxBatchSize = Math.min(options.maxBatchSize ?? MAX_BATCH_SIZE, MAX_BATCH_SIZE);
+    if (this.maxBatchSize < 1) {
+      throw new Error(`Invalid maxBatchSize: ${options.maxBatchSize}`);
+    }
+    this.stopOnError = options.stopOnError ?? false;
+  }
+
+  /** Number of operations queued so far. */
+  get size(): number {
+    return this.operations.length;
+  }
+
+  /**
+   * Queues a new document and returns its reference. Its ID follows the schema's 'ulid' or 'uuidv7'
+   * strategy, or is a Firestore auto-ID; collections with 'fields' or 'custom' IDs throw, since
+   * those IDs need a read to check for collisions.
+   */
+  add<TData extends DocumentData, TAddData extends DocumentData>(
+    collectionRef: ClientBaseCollectionRef<TData, TAddData>,
+    data: TAddData
+  ): DocumentReference<TData> {
+    const dataToWrite = collectionRef.prepareWriteData(data);
+    const docRef = collectionRef.newDocRef();
+    this.operations.push({
+      type: 'add',
+      ref: docRef,
+      apply: batch => batch.set(docRef, dataToWrite as TData),
+    });
+    return docRef;
+  }
+
+  /**
+   * Queues a set, overwriting the document unless merge options are provided.
+   * Throws for optimistically locked collections, whose lock check needs a read, and for merge
+   * sets on soft-deleting collections, which read the document to know whether to write its marker.
+   * A batch cannot tell whether a set creates the document, so a managed createdAt is written by
+   * full sets and left out of merge sets.
+   */
+  set<TData extends DocumentData, TAddData extends DocumentData>(
+    collectionRef: ClientBaseCollectionRef<TData, TAddData>,
+    id: string,
+    data: TAddData,
+    options?: SetOptions & { merge?: false | undefined }
+  ): this;
+  set<TData extends DocumentData, TAddData extends DocumentData>(
+    collectionRef: ClientBaseCollectionRef<TData, TAddData>,
+    id: string,
+    data: Partial<TAddData>,
+    options: SetOptions & ({ merge: true } | { mergeFields: ReadonlyArray<string> })
+  ): this;
+  set<TData extends DocumentData, TAddData extends DocumentData>(
+    collectionRef: ClientBaseCollectionRef<TData, TAddData>,
+    id: string,
+    data: TAddData | Partial<TAddData>,
+    options?: SetOptions
+  ): this {
+    if (collectionRef.requiresLockCheck) {
+      throw new Error(`Cannot batch a set of '${collectionRef.doc(id).path}': its collection uses optimistic locking, which needs a read. Use set() or a transaction.`);
+    }
+    if (collectionRef.requiresMarkerCheck(options)) {
+      throw new Error(`Cannot batch a merge set of '${collectionRef.doc(id).path}': its collection uses soft deletes, which needs a read. Use set() or a transaction.`);
+    }
+    const dataToWrite = collectionRef.prepareWriteData(data, options);
+    const setOptions = collectionRef.prepareSetOptions(options);
+    const docRef = collectionRef.doc(id);
+    this.operations.push({
+      type: 'set',
+      ref: docRef,
+      apply: batch => batch.set(docRef, dataToWrite as Partial<TData>, setOptions || {}),
+    });
+    return this;
+  }
+
+  /**
+   * Queues the field updates accumulated by an update builder.
+   * Throws for builders of optimistically locked collections, whose lock check needs a read.
+   */
+  update<TData extends DocumentData>(updateBuilder: ClientBaseUpdateBuilder<TData>): this {
+    if (updateBuilder.requiresLockCheck) {
+      throw new Error(`Cannot batch an update of '${updateBuilder.docRef.path}': its collection uses optimistic locking, which needs a read. Use commit() or a transaction.`);
+    }
+    const updateData = updateBuilder.updateData;
+    if (Object.keys(updateData).length === 0) {
+      console.warn('Batch update called with no changes specified.');
+      return this;
+    }
+    const docRef = updateBuilder.docRef;
+    this.operations.push({
+      type: 'update',
+      ref: docRef,
+      apply: batch => batch.update(docRef, updateData),
+    });
+    return this;
+  }
+
+  /**
+   * Queues a delete. Throws for soft-deleting collections, whose delete reads the document; use
+   * purge() to delete their documents permanently.
+   */
+  delete<TData extends DocumentData, TAddData extends DocumentData>(
+    collectionRef: ClientBaseCollectionRef<TData, TAddData>,
+    id: string
+  ): this {
+    if (collectionRef.usesSoftDelete) {
+      throw new Error(`Cannot batch a delete of '${collectionRef.doc(id).path}': its collection uses soft deletes, which needs a read. Use delete(), a transaction, or purge() to delete it permanently.`);
+    }
+    return this.purge(collectionRef, id);
+  }
+
+  /** Queues a permanent delete, even when the schema enables soft deletes. */
+  purge<TData extends DocumentData, TAddData extends DocumentData>(
+    collectionRef: ClientBaseCollectionRef<TData, TAddData>,
+    id: string
+  ): this {
+    const docRef = collectionRef.doc(id);
+    this.operations.push({
+      type: 'delete',
+      ref: docRef,
+      apply: batch => batch.delete(docRef),
+    });
+    return this;
+  }
+
+  /**
+   * Commits the queued operations in chunks of at most `maxBatchSize`, in queue order.
+   * Each chunk is atomic on its own; the result reports which chunks failed.
+   * The queue is cleared once commit starts. Cached reads of the collections written by
+   * committed chunks are invalidated.
+   */
+  async commit(): Promise<BatchCommitResult> {
+    const operations = this.operations;
+    this.operations = [];
+
+    const result: BatchCommitResult = { chunks: [], successCount: 0, failureCount: 0 };
+    const committedRefs: DocumentReference<DocumentData>[] = [];
+    let stopped = false;
+    for (let start = 0, index = 0; start < operations.length; start += this.maxBatchSize, index++) {
+      const chunk = operations.slice(start, start + this.maxBatchSize);
+      const chunkOperations = chunk.map(({ type, ref }) => ({ type, ref }));
+      if (stopped) {
+        result.chunks.push({ index, operations: chunkOperations, success: false, skipped: true });
+        result.failureCount += chunk.length;
+        continue;
+      }
+      // Use top-level writeBatch function
+      const batch = writeBatch(this.firestore);
+      try {
+        // WriteBatch.set()/update() throw synchronously on invalid data; report that as a failed chunk
+        chunk.forEach(op => op.apply(batch));
+        await batch.commit();
+        result.chunks.push({ index, operations: chunkOperations, success: true });
+        result.successCount += chunk.length;
+        committedRefs.push(...chunk.map(op => op.ref));
+      } catch (error) {
+        result.chunks.push({ index, operations: chunkOperations, success: false, error });
+        result.failureCount += chunk.length;
+        stopped = this.stopOnError;
+      }
+    }
+    await invalidateWrittenCollections(this.firestore, committedRefs);
+    return result;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Options and results for copying or moving a document together with its sub-collection trees.
+ */
+import type { DocumentReference, DocumentData } from 'firebase/firestore';
+
+import type { ClientBaseCollectionRef } from './baseCollection';
+
+export interface CopyProgress {
+  /** Documents written so far. */
+  copied: number;
+  /** Documents to write in total. */
+  total: number;
+}
+
+export interface CopyOptions<TData extends DocumentData = DocumentData, TAddData extends DocumentData = DocumentData> {
+  /**
+   * Collection to copy into, e.g. the same sub-collection under another parent. Its schema
+   * resolves the target sub-collections. Defaults to the source collection.
+   */
+  target?: ClientBaseCollectionRef<TData, TAddData>;
+  /** Replace an existing target document instead of failing with a DocumentExistsError. Defaults to false. */
+  overwrite?: boolean;
+  /** Maximum writes per committed batch. Defaults to (and cannot exceed) 500. */
+  batchSize?: number;
+  /** Called after each committed batch. */
+  onProgress?: (progress: CopyProgress) => void;
+}
+
+export interface CopyResult<TData extends DocumentData = DocumentData> {
+  /** The copied document at its new location. */
+  ref: DocumentReference<TData>;
+  /** Paths of every written document, parents before their descendants. */
+  paths: string[];
+}
+
+/** A document write planned by a copy. */
+export interface PlannedCopyWrite {
+  ref: DocumentReference<DocumentData>;
+  data: DocumentData;
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+/**
+ * Typed wrappers that keep a document's ID, reference and sync metadata alongside its data.
+ */
+import type {
+  DocumentReference,
+  DocumentData,
+  DocumentSnapshot,
+  QueryDocumentSnapshot,
+} from 'firebase/firestore';
+
+/** A document read, including documents that do not exist. */
+export interface DocumentEnvelope<TData extends DocumentData> {
+  id: string;
+  ref: DocumentReference<TData>;
+  data: TData | undefined;
+  exists: boolean;
+  /** True if the data came from the local cache rather than the server. */
+  fromCache: boolean;
+  /** True if the document has local writes not yet acknowledged by the server. */
+  hasPendingWrites: boolean;
+  /** Path of the parent document for sub-collection documents, e.g. from collection group queries. */
+  parentPath?: string;
+}
+
+/** A document returned by a query, which always exists. */
+export interface QueryDocumentEnvelope<TData extends DocumentData> extends DocumentEnvelope<TData> {
+  data: TData;
+  exists: true;
+}
+
+function getParentPath(ref: DocumentReference<DocumentData>): string | undefined {
+  return ref.parent?.parent?.path;
+}
+
+/** Wraps a DocumentSnapshot in an envelope. */
+export function toDocumentEnvelope<TData extends DocumentData>(
+  snapshot: DocumentSnapshot<TData>
+): DocumentEnvelope<TData> {
+  const exists = snapshot.exists();
+  return {
+    id: snapshot.id,
+    ref: snapshot.ref,
+    data: exists ? snapshot.data() : undefined,
+    exists,
+    fromCache: snapshot.metadata.fromCache,
+    hasPendingWrites: snapshot.metadata.hasPendingWrites,
+    parentPath: getParentPath(snapshot.ref),
+  };
+}
+
+/** Wraps a QueryDocumentSnapshot in an envelope. */
+export function toQueryDocumentEnvelope<TData extends DocumentData>(
+  snapshot: QueryDocumentSnapshot<TData>
+): QueryDocumentEnvelope<TData> {
+  return {
+    id: snapshot.id,
+    ref: snapshot.ref,
+    data: snapshot.data(),
+    exists: true,
+    fromCache: snapshot.metadata.fromCache,
+    hasPendingWrites: snapshot.metadata.hasPendingWrites,
+    parentPath: getParentPath(snapshot.ref),
+  };
+}
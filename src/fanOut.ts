@@ -0,0 +1,134 @@
+/**
+ * Splits queries whose 'in' / 'array-contains-any' / 'not-in' values exceed Firestore's limits
+ * into several queries, and merges their results back into one.
+ */
+import type { DocumentData } from 'firebase/firestore';
+
+import type { QueryConstraintDefinition } from './baseQueryBuilder';
+import type { QueryDocumentEnvelope } from './documentEnvelope';
+import { DOCUMENT_ID_FIELD, compareValues, compareDocumentPaths, getFieldValue, valuesEqual } from './firestoreOrdering';
+
+/** Maximum number of values Firestore accepts in an 'in' or 'array-contains-any' filter. */
+export const MAX_DISJUNCTION_VALUES = 30;
+/** Maximum number of values Firestore accepts in a 'not-in' filter. */
+export const MAX_NOT_IN_VALUES = 10;
+
+type WhereDefinition = Extract<QueryConstraintDefinition, { type: 'where' }>;
+type OrderByDefinition = Extract<QueryConstraintDefinition, { type: 'orderBy' }>;
+type LimitDefinition = Extract<QueryConstraintDefinition, { type: 'limit' | 'limitToLast' }>;
+
+/** How to run an oversized query as several server queries plus client-side post-processing. */
+export interface FanOutPlan {
+  /** Constraint definitions for each server query. */
+  queries: QueryConstraintDefinition[][];
+  /** 'not-in' values beyond the server limit, checked on the client. */
+  clientExclusions: Array<{ fieldPath: string; values: unknown[] }>;
+  orderBys: OrderByDefinition[];
+  limit?: LimitDefinition;
+}
+
+function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function isOversizedDisjunction(def: QueryConstraintDefinition): def is WhereDefinition {
+  return def.type === 'where' &&
+    (def.opStr === 'in' || def.opStr === 'array-contains-any') &&
+    Array.isArray(def.value) && def.value.length > MAX_DISJUNCTION_VALUES;
+}
+
+function isOversizedNotIn(def: QueryConstraintDefinition): def is WhereDefinition {
+  return def.type === 'where' && def.opStr === 'not-in' &&
+    Array.isArray(def.value) && def.value.length > MAX_NOT_IN_VALUES;
+}
+
+/**
+ * Returns a plan if any top-level filter exceeds Firestore's value limits, otherwise undefined.
+ * Only one oversized 'in' / 'array-contains-any' filter per query is supported.
+ */
+export function planFanOut(definitions: ReadonlyArray<QueryConstraintDefinition>): FanOutPlan | undefined {
+  const disjunctions = definitions.filter(isOversizedDisjunction);
+  const notIns = definitions.filter(isOversizedNotIn);
+  if (disjunctions.length === 0 && notIns.length === 0) {
+    return undefined;
+  }
+  if (disjunctions.length > 1) {
+    throw new Error(
+      `Cannot fan out more than one oversized 'in'/'array-contains-any' filter (fields: ${disjunctions.map(d => d.fieldPath).join(', ')}).`
+    );
+  }
+
+  const clientExclusions = notIns.map(def => ({ fieldPath: def.fieldPath, values: def.value.slice(MAX_NOT_IN_VALUES) }));
+  const limitDef = definitions.find((def): def is LimitDefinition => def.type === 'limit' || def.type === 'limitToLast');
+
+  const base = definitions.flatMap((def): QueryConstraintDefinition[] => {
+    if (isOversizedNotIn(def)) {
+      return [{ ...def, value: def.value.slice(0, MAX_NOT_IN_VALUES) }];
+    }
+    // Client-side exclusions can drop documents, so the limit is applied after filtering
+    if (clientExclusions.length > 0 && def === limitDef) {
+      return [];
+    }
+    return [def];
+  });
+
+  const disjunction = disjunctions[0];
+  const queries = disjunction
+    ? chunk(disjunction.value as unknown[], MAX_DISJUNCTION_VALUES).map(values =>
+        base.map(def => (def === disjunction ? { ...disjunction, value: values } : def)))
+    : [base];
+
+  return {
+    queries,
+    clientExclusions,
+    orderBys: definitions.filter((def): def is OrderByDefinition => def.type === 'orderBy'),
+    limit: limitDef,
+  };
+}
+
+/**
+ * Merges the results of a plan's queries: de-duplicates by document path, applies client-side
+ * exclusions, re-sorts by the orderBy clauses (then document ID) and re-applies the limit.
+ */
+export function mergeFanOutResults<TData extends DocumentData>(
+  plan: FanOutPlan,
+  results: QueryDocumentEnvelope<TData>[][]
+): QueryDocumentEnvelope<TData>[] {
+  const byPath = new Map<string, QueryDocumentEnvelope<TData>>();
+  for (const docs of results) {
+    for (const docEnvelope of docs) {
+      byPath.set(docEnvelope.ref.path, docEnvelope);
+    }
+  }
+
+  const merged = Array.from(byPath.values()).filter(docEnvelope =>
+    plan.clientExclusions.every(({ fieldPath, values }) => {
+      const value = getFieldValue(docEnvelope.data, fieldPath);
+      return !values.some(excluded => valuesEqual(value, excluded));
+    }));
+
+  // Firestore breaks ties by document ID, in the direction of the last orderBy
+  const lastDirection = plan.orderBys.length > 0 ? plan.orderBys[plan.orderBys.length - 1].directionStr : 'asc';
+  merged.sort((a, b) => {
+    for (const { fieldPath, directionStr } of plan.orderBys) {
+      const result = fieldPath === DOCUMENT_ID_FIELD
+        ? compareDocumentPaths(a.ref.path, b.ref.path)
+        : compareValues(getFieldValue(a.data, fieldPath), getFieldValue(b.data, fieldPath));
+      if (result !== 0) return directionStr === 'desc' ? -result : result;
+    }
+    const result = compareDocumentPaths(a.ref.path, b.ref.path);
+    return lastDirection === 'desc' ? -result : result;
+  });
+
+  if (plan.limit?.type === 'limit') {
+    return merged.slice(0, plan.limit.limitCount);
+  }
+  if (plan.limit?.type === 'limitToLast') {
+    return merged.slice(Math.max(0, merged.length - plan.limit.limitCount));
+  }
+  return merged;
+}
@@ -0,0 +1,136 @@
+/**
+ * Client-side implementation of Firestore's value ordering, for sorting and comparing
+ * documents the same way the server does.
+ */
+import type { DocumentData } from 'firebase/firestore';
+
+import {
+  Timestamp,
+  GeoPoint,
+  DocumentReference,
+  Bytes,
+} from 'firebase/firestore';
+
+/** Field path Firestore uses to order by document ID. */
+export const DOCUMENT_ID_FIELD = '__name__';
+
+/** Position of each value type in Firestore's cross-type ordering. */
+export function typeOrder(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  if (typeof value === 'boolean') return 1;
+  if (typeof value === 'number') return 2;
+  if (value instanceof Timestamp || value instanceof Date) return 3;
+  if (typeof value === 'string') return 4;
+  if (value instanceof Bytes) return 5;
+  if (value instanceof DocumentReference) return 6;
+  if (value instanceof GeoPoint) return 7;
+  if (Array.isArray(value)) return 8;
+  return 9; // map
+}
+
+function sign(n: number): number {
+  return n < 0 ? -1 : n > 0 ? 1 : 0;
+}
+
+function compareNumbers(a: number, b: number): number {
+  // NaN sorts before every other number and equals itself
+  if (Number.isNaN(a)) return Number.isNaN(b) ? 0 : -1;
+  if (Number.isNaN(b)) return 1;
+  return sign(a - b);
+}
+
+function toTimestamp(value: Timestamp | Date): Timestamp {
+  return value instanceof Date ? Timestamp.fromDate(value) : value;
+}
+
+/** Compares strings by Unicode code point, matching Firestore's UTF-8 byte ordering. */
+function compareStrings(a: string, b: string): number {
+  const aPoints = Array.from(a);
+  const bPoints = Array.from(b);
+  const length = Math.min(aPoints.length, bPoints.length);
+  for (let i = 0; i < length; i++) {
+    const diff = aPoints[i].codePointAt(0)! - bPoints[i].codePointAt(0)!;
+    if (diff !== 0) return sign(diff);
+  }
+  return sign(aPoints.length - bPoints.length);
+}
+
+function compareByteArrays(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return sign(a[i] - b[i]);
+  }
+  return sign(a.length - b.length);
+}
+
+/** Compares document paths segment by segment, as Firestore orders document IDs. */
+export function compareDocumentPaths(a: string, b: string): number {
+  const aSegments = a.split('/');
+  const bSegments = b.split('/');
+  const length = Math.min(aSegments.length, bSegments.length);
+  for (let i = 0; i < length; i++) {
+    const result = compareStrings(aSegments[i], bSegments[i]);
+    if (result !== 0) return result;
+  }
+  return sign(aSegments.length - bSegments.length);
+}
+
+/**
+ * Compares two Firestore values: negative if `a` sorts first, positive if `b` does, 0 if equal.
+ * Values of different types are ordered null < boolean < number < timestamp < string < bytes
+ * < reference < geopoint < array < map.
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const typeDiff = typeOrder(a) - typeOrder(b);
+  if (typeDiff !== 0) return sign(typeDiff);
+
+  switch (typeOrder(a)) {
+    case 0: return 0;
+    case 1: return sign(Number(a) - Number(b));
+    case 2: return compareNumbers(a as number, b as number);
+    case 3: {
+      const aTs = toTimestamp(a as Timestamp | Date);
+      const bTs = toTimestamp(b as Timestamp | Date);
+      return sign(aTs.seconds - bTs.seconds) || sign(aTs.nanoseconds - bTs.nanoseconds);
+    }
+    case 4: return compareStrings(a as string, b as string);
+    case 5: return compareByteArrays((a as Bytes).toUint8Array(), (b as Bytes).toUint8Array());
+    case 6: return compareDocumentPaths((a as DocumentReference).path, (b as DocumentReference).path);
+    case 7: {
+      const aGeo = a as GeoPoint;
+      const bGeo = b as GeoPoint;
+      return compareNumbers(aGeo.latitude, bGeo.latitude) || compareNumbers(aGeo.longitude, bGeo.longitude);
+    }
+    case 8: {
+      const aArr = a as unknown[];
+      const bArr = b as unknown[];
+      const length = Math.min(aArr.length, bArr.length);
+      for (let i = 0; i < length; i++) {
+        const result = compareValues(aArr[i], bArr[i]);
+        if (result !== 0) return result;
+      }
+      return sign(aArr.length - bArr.length);
+    }
+    default: {
+      // Maps compare their entries in key order: keys first, then values
+      const aEntries = Object.entries(a as Record<string, unknown>).sort(([x], [y]) => compareStrings(x, y));
+      const bEntries = Object.entries(b as Record<string, unknown>).sort(([x], [y]) => compareStrings(x, y));
+      const length = Math.min(aEntries.length, bEntries.length);
+      for (let i = 0; i < length; i++) {
+        const result = compareStrings(aEntries[i][0], bEntries[i][0]) || compareValues(aEntries[i][1], bEntries[i][1]);
+        if (result !== 0) return result;
+      }
+      return sign(aEntries.length - bEntries.length);
+    }
+  }
+}
+
+/** True if two Firestore values are equal under Firestore's comparison rules. */
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  return compareValues(a, b) === 0;
+}
+
+/** Reads a (dot-separated) field path from document data. */
+export function getFieldValue(data: DocumentData, fieldPath: string): unknown {
+  return fieldPath.split('.').reduce<any>((value, segment) => value?.[segment], data);
+}
@@ -0,0 +1,132 @@
+/**
+ * Schema-configured document ID generation for add(): time-sortable ULIDs and UUIDv7s, IDs derived
+ * from document fields, or a custom generator.
+ */
+import type { DocumentData } from 'firebase/firestore';
+
+/**
+ * 'ulid' and 'uuidv7' generate random, time-sortable IDs; 'fields' joins the slugs of `fields`;
+ * 'custom' calls `generate`.
+ */
+export type IdStrategy = 'ulid' | 'uuidv7' | 'fields' | 'custom';
+
+/**
+ * What add() does when a 'fields' or 'custom' ID is taken: 'error' fails with a
+ * DocumentExistsError, 'suffix' tries `<id>-2`, `<id>-3`... until a free ID is found.
+ */
+export type IdCollisionPolicy = 'error' | 'suffix';
+
+export interface IdGenerationConfig {
+  strategy: IdStrategy;
+  /** Top-level fields an ID is derived from, for the 'fields' strategy. */
+  fields?: string[];
+  /** Joins the field slugs of the 'fields' strategy. Defaults to '-'. */
+  separator?: string;
+  /** Generator for the 'custom' strategy, called with the data being added. */
+  generate?: (data: DocumentData) => string | Promise<string>;
+  /** Applies to 'fields' and 'custom' IDs. Defaults to 'error'. */
+  onCollision?: IdCollisionPolicy;
+  /** Most IDs tried under the 'suffix' policy, including the unsuffixed one. Defaults to 100. */
+  maxAttempts?: number;
+}
+
+export const DEFAULT_MAX_ID_ATTEMPTS = 100;
+
+/** Crockford's base32 alphabet, as used by ULIDs. */
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+function randomBytes(length: number): Uint8Array {
+  // Browsers and Node.js 19+ expose Web Crypto globally; Node.js 18 only behind a flag
+  if (typeof globalThis.crypto?.getRandomValues !== 'function') {
+    throw new Error(`The 'ulid' and 'uuidv7' ID strategies need the Web Crypto API (globalThis.crypto), which Node.js provides by default from version 19.`);
+  }
+  return globalThis.crypto.getRandomValues(new Uint8Array(length));
+}
+
+/** A 26-character ULID: 48 bits of millisecond time followed by 80 random bits, base32-encoded. */
+export function generateUlid(now: number = Date.now()): string {
+  let time = '';
+  for (let i = 0, remaining = now; i < 10; i++) {
+    time = ULID_ALPHABET[remaining % 32] + time;
+    remaining = Math.floor(remaining / 32);
+  }
+  // 16 random bytes give 128 bits; only the 80 needed for 16 characters are used
+  const random = Array.from(randomBytes(16), byte => ULID_ALPHABET[byte % 32]).join('');
+  return time + random;
+}
+
+/** An RFC 9562 version 7 UUID: 48 bits of millisecond time, version and variant bits, random bits. */
+export function generateUuidV7(now: number = Date.now()): string {
+  const bytes = randomBytes(16);
+  for (let i = 5, remaining = now; i >= 0; i--) {
+    bytes[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x70;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/** Lower-cases `value`, drops diacritics and joins its runs of letters and digits with '-'. */
+export function slugify(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/** Throws unless `id` is usable as a Firestore document ID. */
+export function validateDocumentId(id: string): void {
+  if (id.length === 0 || id.includes('/') || id === '.' || id === '..' || /^__.*__$/.test(id)) {
+    throw new Error(`Invalid generated document ID '${id}'.`);
+  }
+}
+
+/** True if the strategy can produce IDs that are already taken, so add() must check for them. */
+export function isDeterministicIdStrategy(config: IdGenerationConfig): boolean {
+  return config.strategy === 'fields' || config.strategy === 'custom';
+}
+
+/** The candidate ID for an attempt under the 'suffix' policy: `id`, then `id-2`, `id-3`... */
+export function withIdSuffix(id: string, attempt: number): string {
+  return attempt === 0 ? id : `${id}-${attempt + 1}`;
+}
+
+/** Generates the ID of a document being added with `data`. */
+export async function generateDocumentId(config: IdGenerationConfig, data: DocumentData): Promise<string> {
+  let id: string;
+  switch (config.strategy) {
+    case 'ulid':   id = generateUlid(); break;
+    case 'uuidv7': id = generateUuidV7(); break;
+    case 'fields': {
+      if (!config.fields || config.fields.length === 0) {
+        throw new Error(`The 'fields' ID strategy requires at least one field.`);
+      }
+      id = config.fields.map(field => {
+        const value = data[field];
+        if (typeof value !== 'string' && typeof value !== 'number') {
+          throw new Error(`Cannot derive a document ID from field '${field}': expected a string or number.`);
+        }
+        const slug = slugify(String(value));
+        if (slug === '') {
+          throw new Error(`Cannot derive a document ID from field '${field}': it has no letters or digits.`);
+        }
+        return slug;
+      }).join(config.separator ?? '-');
+      break;
+    }
+    case 'custom': {
+      if (!config.generate) {
+        throw new Error(`The 'custom' ID strategy requires a generate function.`);
+      }
+      id = await config.generate(data);
+      break;
+    }
+    default: throw new Error(`Unsupported ID strategy: ${(config as any).strategy}`);
+  }
+  validateDocumentId(id);
+  return id;
+}
\ No newline at end of file
@@ -6,6 +6,27 @@
 export * from './baseCollection';
 export * from './baseQueryBuilder';
 export * from './baseUpdateBuilder';
+export * from './validation';
+export * from './documentEnvelope';
+export * from './transaction';
+export * from './batchWriter';
+export * from './paginator';
+export * from './serialization';
+export * from './firestoreOrdering';
+export * from './fanOut';
+export * from './queryValidation';
+export * from './localQuery';
+export * from './requestCoalescing';
+export * from './readBatching';
+export * from './readCache';
+export * from './readSource';
+export * from './optimisticLocking';
+export * from './updateDiff';
+export * from './timestamps';
+export * from './softDelete';
+export * from './recursiveDelete';
+export * from './documentCopy';
+export * from './idGeneration';
 
 // Re-export core types for convenience? Optional.
 // export * from '@shtse8/fireschema-core-types';
\ No newline at end of file
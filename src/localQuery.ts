@@ -0,0 +1,240 @@
+/**
+ * In-memory evaluation of query constraint definitions over local documents, with the same
+ * filtering, ordering, cursor and limit semantics as a Firestore query.
+ */
+import type { DocumentData } from 'firebase/firestore';
+
+import { DocumentSnapshot, DocumentReference } from 'firebase/firestore';
+
+import type { QueryConstraintDefinition } from './baseQueryBuilder';
+import { DOCUMENT_ID_FIELD, compareValues, compareDocumentPaths, getFieldValue, typeOrder, valuesEqual } from './firestoreOrdering';
+import { getInequalityFieldPaths, validateQueryConstraints } from './queryValidation';
+
+type WhereDefinition = Extract<QueryConstraintDefinition, { type: 'where' }>;
+type FilterDefinition = Extract<QueryConstraintDefinition, { type: 'where' | 'or' | 'and' }>;
+type CursorDefinition = Extract<QueryConstraintDefinition, { type: 'startAt' | 'startAfter' | 'endAt' | 'endBefore' }>;
+
+export interface LocalQueryOptions<TData extends DocumentData> {
+  /**
+   * Returns a document's ID (or full path, see `useDocumentPaths`). Required for filters, orderBy
+   * clauses or cursors on the document ID; otherwise ties keep the input order.
+   */
+  getId?: (data: TData, index: number) => string;
+  /** True when IDs are full document paths (collection group queries). Defaults to false. */
+  useDocumentPaths?: boolean;
+}
+
+interface LocalDocument<TData> {
+  data: TData;
+  index: number;
+  id?: string;
+}
+
+interface Ordering {
+  fieldPath: string;
+  descending: boolean;
+}
+
+function isRangeOp(opStr: string): boolean {
+  return opStr === '<' || opStr === '<=' || opStr === '>' || opStr === '>=';
+}
+
+/** Applies a range operator to a comparison result. */
+function rangeMatches(opStr: string, result: number): boolean {
+  switch (opStr) {
+    case '<':  return result < 0;
+    case '<=': return result <= 0;
+    case '>':  return result > 0;
+    default:   return result >= 0;
+  }
+}
+
+function isNaNValue(value: unknown): boolean {
+  return typeof value === 'number' && Number.isNaN(value);
+}
+
+export class LocalQueryEvaluator<TData extends DocumentData> {
+  protected definitions: ReadonlyArray<QueryConstraintDefinition>;
+  protected options: LocalQueryOptions<TData>;
+  protected orderings: Ordering[];
+
+  constructor(definitions: ReadonlyArray<QueryConstraintDefinition>, options: LocalQueryOptions<TData> = {}) {
+    validateQueryConstraints(definitions);
+    this.definitions = definitions;
+    this.options = options;
+    this.orderings = this.resolveOrderings();
+  }
+
+  /** Filters, sorts and slices the documents the way Firestore would answer the query. */
+  evaluate(documents: ReadonlyArray<TData>): TData[] {
+    const filters = this.definitions.filter((def): def is FilterDefinition =>
+      def.type === 'where' || def.type === 'or' || def.type === 'and');
+
+    let results = documents
+      .map((data, index): LocalDocument<TData> => ({ data, index, id: this.options.getId?.(data, index) }))
+      .filter(doc => filters.every(filter => this.matchesFilter(doc, filter)))
+      // Documents without a value for an ordered field are never part of the result
+      .filter(doc => this.orderings.every(({ fieldPath }) => fieldPath === DOCUMENT_ID_FIELD || getFieldValue(doc.data, fieldPath) !== undefined))
+      .sort((a, b) => this.compareDocuments(a, b));
+
+    const cursors = this.definitions.filter((def): def is CursorDefinition =>
+      def.type === 'startAt' || def.type === 'startAfter' || def.type === 'endAt' || def.type === 'endBefore');
+    // Like the SDK, a later start (or end) cursor replaces an earlier one
+    const start = cursors.filter(def => def.type === 'startAt' || def.type === 'startAfter').pop();
+    const end = cursors.filter(def => def.type === 'endAt' || def.type === 'endBefore').pop();
+    if (start) {
+      const values = this.getCursorValues(start);
+      results = results.filter(doc => {
+        const position = this.compareToCursor(doc, values);
+        return start.type === 'startAt' ? position >= 0 : position > 0;
+      });
+    }
+    if (end) {
+      const values = this.getCursorValues(end);
+      results = results.filter(doc => {
+        const position = this.compareToCursor(doc, values);
+        return end.type === 'endAt' ? position <= 0 : position < 0;
+      });
+    }
+
+    const limitDef = this.definitions.filter((def): def is Extract<QueryConstraintDefinition, { type: 'limit' | 'limitToLast' }> =>
+      def.type === 'limit' || def.type === 'limitToLast').pop();
+    if (limitDef?.type === 'limit') {
+      results = results.slice(0, limitDef.limitCount);
+    } else if (limitDef?.type === 'limitToLast') {
+      results = results.slice(Math.max(0, results.length - limitDef.limitCount));
+    }
+    return results.map(doc => doc.data);
+  }
+
+  /** Explicit orderBy clauses (or the implicit inequality ordering), ending with the document ID. */
+  protected resolveOrderings(): Ordering[] {
+    const orderings: Ordering[] = this.definitions
+      .filter((def): def is Extract<QueryConstraintDefinition, { type: 'orderBy' }> => def.type === 'orderBy')
+      .map(def => ({ fieldPath: def.fieldPath, descending: def.directionStr === 'desc' }));
+    if (orderings.length === 0) {
+      orderings.push(...getInequalityFieldPaths(this.definitions).map(fieldPath => ({ fieldPath, descending: false })));
+    }
+    if (orderings.length === 0 || orderings[orderings.length - 1].fieldPath !== DOCUMENT_ID_FIELD) {
+      // Firestore breaks ties by document ID, in the direction of the last orderBy
+      const descending = orderings.length > 0 && orderings[orderings.length - 1].descending;
+      orderings.push({ fieldPath: DOCUMENT_ID_FIELD, descending });
+    }
+    return orderings;
+  }
+
+  protected matchesFilter(doc: LocalDocument<TData>, def: FilterDefinition): boolean {
+    switch (def.type) {
+      case 'or':  return def.filters.some(filter => this.matchesFilter(doc, filter));
+      case 'and': return def.filters.every(filter => this.matchesFilter(doc, filter));
+      case 'where':
+        return def.fieldPath === DOCUMENT_ID_FIELD
+          ? this.matchesIdFilter(this.requireId(doc), def)
+          : this.matchesWhere(getFieldValue(doc.data, def.fieldPath), def);
+    }
+  }
+
+  protected matchesWhere(value: unknown, def: WhereDefinition): boolean {
+    // Filters never match documents that lack the field
+    if (value === undefined) return false;
+    const operand = def.value;
+    switch (def.opStr) {
+      case '==': return valuesEqual(value, operand);
+      // '!=' and 'not-in' also exclude null and NaN values
+      case '!=': return value !== null && !isNaNValue(value) && !valuesEqual(value, operand);
+      case 'in': return (operand as unknown[]).some(candidate => valuesEqual(value, candidate));
+      case 'not-in':
+        return value !== null && !isNaNValue(value) && !(operand as unknown[]).some(candidate => valuesEqual(value, candidate));
+      case 'array-contains':
+        return Array.isArray(value) && value.some(element => valuesEqual(element, operand));
+      case 'array-contains-any':
+        return Array.isArray(value) && value.some(element => (operand as unknown[]).some(candidate => valuesEqual(element, candidate)));
+      default: {
+        // Range filters only match values of the operand's type, and never null or NaN
+        if (!isRangeOp(def.opStr) || typeOrder(value) !== typeOrder(operand) || value === null || isNaNValue(value) || isNaNValue(operand)) {
+          return false;
+        }
+        return rangeMatches(def.opStr, compareValues(value, operand));
+      }
+    }
+  }
+
+  protected matchesIdFilter(id: string, def: WhereDefinition): boolean {
+    const operand = Array.isArray(def.value) ? def.value.map(value => this.toIdValue(value)) : this.toIdValue(def.value);
+    if (def.opStr === '==' || def.opStr === '!=' || def.opStr === 'in' || def.opStr === 'not-in') {
+      return this.matchesWhere(id, { ...def, value: operand });
+    }
+    if (!isRangeOp(def.opStr) || typeof operand !== 'string') return false;
+    return rangeMatches(def.opStr, compareDocumentPaths(id, operand));
+  }
+
+  protected compareDocuments(a: LocalDocument<TData>, b: LocalDocument<TData>): number {
+    for (const { fieldPath, descending } of this.orderings) {
+      const result = fieldPath === DOCUMENT_ID_FIELD
+        ? this.compareIds(a, b)
+        : compareValues(getFieldValue(a.data, fieldPath), getFieldValue(b.data, fieldPath));
+      if (result !== 0) return descending ? -result : result;
+    }
+    return 0;
+  }
+
+  /** Without IDs, documents keep their input order as the final tie-break. */
+  protected compareIds(a: LocalDocument<TData>, b: LocalDocument<TData>): number {
+    if (a.id === undefined || b.id === undefined) {
+      return a.index - b.index;
+    }
+    return compareDocumentPaths(a.id, b.id);
+  }
+
+  /** Cursor values for the query's orderings; snapshots contribute their own field values. */
+  protected getCursorValues(def: CursorDefinition): unknown[] {
+    if (def.snapshotOrFieldValue instanceof DocumentSnapshot) {
+      const snapshot = def.snapshotOrFieldValue;
+      return this.orderings.map(({ fieldPath }) => {
+        if (fieldPath === DOCUMENT_ID_FIELD) {
+          return this.options.useDocumentPaths ? snapshot.ref.path : snapshot.id;
+        }
+        return snapshot.get(fieldPath);
+      });
+    }
+    return [def.snapshotOrFieldValue, ...def.fieldValues];
+  }
+
+  /** Position of a document relative to a cursor: negative before it, 0 at it, positive after it. */
+  protected compareToCursor(doc: LocalDocument<TData>, values: unknown[]): number {
+    for (let i = 0; i < values.length; i++) {
+      const { fieldPath, descending } = this.orderings[i];
+      const result = fieldPath === DOCUMENT_ID_FIELD
+        ? compareDocumentPaths(this.requireId(doc), String(this.toIdValue(values[i])))
+        : compareValues(getFieldValue(doc.data, fieldPath), values[i]);
+      if (result !== 0) return descending ? -result : result;
+    }
+    return 0;
+  }
+
+  protected toIdValue(value: unknown): unknown {
+    if (value instanceof DocumentReference) {
+      return this.options.useDocumentPaths ? value.path : value.id;
+    }
+    return value;
+  }
+
+  protected requireId(doc: LocalDocument<TData>): string {
+    if (doc.id === undefined) {
+      throw new Error(`Queries on the document ID need a 'getId' option to evaluate locally.`);
+    }
+    return doc.id;
+  }
+}
+
+/**
+ * Evaluates query constraint definitions over plain document data and returns the matching
+ * documents, sorted and sliced as Firestore would return them.
+ */
+export function evaluateQuery<TData extends DocumentData>(
+  definitions: ReadonlyArray<QueryConstraintDefinition>,
+  documents: ReadonlyArray<TData>,
+  options?: LocalQueryOptions<TData>
+): TData[] {
+  return new LocalQueryEvaluator<TData>(definitions, options).evaluate(documents);
+}
@@ -0,0 +1,68 @@
+/**
+ * Optimistic concurrency control: every write bumps a lock field, and writes made with a stale
+ * copy of that field fail with a ConflictError instead of overwriting someone else's changes.
+ */
+import type { Transaction, DocumentReference, DocumentData, FieldValue } from 'firebase/firestore';
+
+import { serverTimestamp } from 'firebase/firestore';
+
+import { valuesEqual } from './firestoreOrdering';
+
+/**
+ * 'version' keeps an incrementing number in the lock field (default field: `version`);
+ * 'updateTime' stores the server time of the last write (default field: `updatedAt`).
+ */
+export type OptimisticLockingStrategy = 'version' | 'updateTime';
+
+export interface OptimisticLockingConfig {
+  strategy: OptimisticLockingStrategy;
+  /** Top-level field holding the lock value. Defaults to `version` or `updatedAt` depending on the strategy. */
+  field?: string;
+}
+
+/** Thrown when a document changed since the copy the write was based on was read. */
+export class ConflictError extends Error {
+  /** Path of the conflicting document. */
+  public readonly path: string;
+  /** Lock value the write expected (undefined: the document was expected not to exist). */
+  public readonly expected: unknown;
+  /** Lock value currently stored (undefined if the document or field does not exist). */
+  public readonly actual: unknown;
+
+  constructor(path: string, expected: unknown, actual: unknown) {
+    super(`Document '${path}' was modified concurrently; reload it and retry.`);
+    // Restore the subclass prototype, which Error() drops in ES5 output
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'ConflictError';
+    this.path = path;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
+/** The field a locking configuration stores its lock value in. */
+export function getLockField(config: OptimisticLockingConfig): string {
+  return config.field ?? (config.strategy === 'version' ? 'version' : 'updatedAt');
+}
+
+/**
+ * Reads the document in `transaction` and throws a ConflictError unless its lock value equals
+ * `expected`. Returns the lock value to write, to be merged into the transaction's write.
+ */
+export async function checkLock(
+  transaction: Transaction,
+  docRef: DocumentReference<any>,
+  config: OptimisticLockingConfig,
+  expected: unknown
+): Promise<DocumentData> {
+  const field = getLockField(config);
+  const snapshot = await transaction.get(docRef);
+  const actual = snapshot.exists() ? snapshot.get(field) : undefined;
+  if (!valuesEqual(actual, expected)) {
+    throw new ConflictError(docRef.path, expected, actual);
+  }
+  const next: number | FieldValue = config.strategy === 'version'
+    ? (typeof actual === 'number' ? actual : 0) + 1
+    : serverTimestamp();
+  return { [field]: next };
+}
@@ -0,0 +1,176 @@
+/**
+ * Cursor-based pagination over a query builder, with serializable page tokens.
+ */
+import type { Firestore, DocumentData } from 'firebase/firestore';
+
+import type { ClientBaseQueryBuilder, QueryConstraintDefinition } from './baseQueryBuilder';
+import type { QueryDocumentEnvelope } from './documentEnvelope';
+import { getFieldValue, DOCUMENT_ID_FIELD } from './firestoreOrdering';
+import { getInequalityFieldPaths } from './queryValidation';
+import { serializeValue, deserializeValue, encodeToken, decodeToken } from './serialization';
+import type { SerializedValue } from './serialization';
+
+/** One page of results. Tokens are opaque strings that can be persisted (e.g. in a URL). */
+export interface ClientPage<TData extends DocumentData> {
+  items: QueryDocumentEnvelope<TData>[];
+  hasNext: boolean;
+  hasPrevious: boolean;
+  /** Token for the page after this one, or null if there is none. */
+  nextPageToken: string | null;
+  /** Token for the page before this one, or null if there is none. */
+  previousPageToken: string | null;
+}
+
+interface PageTokenPayload {
+  /** Direction: fetch the page after (`a`) or before (`b`) the cursor document. */
+  d: 'a' | 'b';
+  /** orderBy field paths the token was created for, to reject tokens from other queries. */
+  o: string[];
+  /** Cursor values, one per orderBy field (the document ID last). */
+  v: SerializedValue[];
+}
+
+/**
+ * Fetches fixed-size pages of a query in either direction.
+ * The base builder must not have limit or cursor constraints; ordering by document ID is
+ * appended automatically so every document has a unique position.
+ */
+export class ClientQueryPaginator<TData extends DocumentData> {
+  protected firestore: Firestore;
+  protected builder: ClientBaseQueryBuilder<TData>;
+  protected pageSize: number;
+  /** True when document IDs in cursors must be full paths (collection group queries). */
+  protected useDocumentPaths: boolean;
+  protected orderByFields: string[];
+  protected currentPage?: ClientPage<TData>;
+
+  constructor(
+    firestore: Firestore,
+    builder: ClientBaseQueryBuilder<TData>,
+    pageSize: number,
+    useDocumentPaths = false
+  ) {
+    if (!Number.isInteger(pageSize) || pageSize < 1) {
+      throw new Error(`Invalid page size: ${pageSize}`);
+    }
+    const definitions = builder.getConstraintDefinitions();
+    const unsupported = definitions.find(def => def.type !== 'where' && def.type !== 'or' && def.type !== 'and' && def.type !== 'orderBy');
+    if (unsupported) {
+      throw new Error(`Cannot paginate a query with a '${unsupported.type}' constraint; the paginator manages limits and cursors.`);
+    }
+
+    const orderBys = definitions.filter((def): def is Extract<QueryConstraintDefinition, { type: 'orderBy' }> => def.type === 'orderBy');
+    const inequalityFields = getInequalityFieldPaths(definitions);
+    if (orderBys.length === 0 && inequalityFields.length > 0) {
+      // Firestore orders by the inequality field implicitly; make it explicit for the cursors
+      builder = builder.orderBy(inequalityFields[0]);
+      orderBys.push({ type: 'orderBy', fieldPath: inequalityFields[0], directionStr: 'asc' });
+    }
+    this.orderByFields = orderBys.map(def => def.fieldPath);
+    if (this.orderByFields[this.orderByFields.length - 1] !== DOCUMENT_ID_FIELD) {
+      // Tie-break on document ID, in the direction of the last explicit ordering
+      const direction = orderBys.length > 0 ? orderBys[orderBys.length - 1].directionStr : 'asc';
+      builder = builder.orderBy(DOCUMENT_ID_FIELD, direction);
+      this.orderByFields.push(DOCUMENT_ID_FIELD);
+    }
+
+    this.firestore = firestore;
+    this.builder = builder;
+    this.pageSize = pageSize;
+    this.useDocumentPaths = useDocumentPaths;
+  }
+
+  /** The most recently fetched page, if any. */
+  get page(): ClientPage<TData> | undefined {
+    return this.currentPage;
+  }
+
+  get hasNext(): boolean {
+    return this.currentPage?.hasNext ?? true;
+  }
+
+  get hasPrevious(): boolean {
+    return this.currentPage?.hasPrevious ?? false;
+  }
+
+  /** Fetches the first page, or the page identified by a token from an earlier page. */
+  async fetch(pageToken?: string | null): Promise<ClientPage<TData>> {
+    const page = pageToken ? await this.fetchFromToken(this.decode(pageToken)) : await this.fetchFirst();
+    this.currentPage = page;
+    return page;
+  }
+
+  /** Fetches the page after the current one (the first page if none was fetched yet). */
+  async next(): Promise<ClientPage<TData>> {
+    if (!this.currentPage) {
+      return this.fetch();
+    }
+    if (!this.currentPage.nextPageToken) {
+      throw new Error('There is no next page.');
+    }
+    return this.fetch(this.currentPage.nextPageToken);
+  }
+
+  /** Fetches the page before the current one. */
+  async previous(): Promise<ClientPage<TData>> {
+    if (!this.currentPage?.previousPageToken) {
+      throw new Error('There is no previous page.');
+    }
+    return this.fetch(this.currentPage.previousPageToken);
+  }
+
+  protected async fetchFirst(): Promise<ClientPage<TData>> {
+    const docs = await this.builder.limit(this.pageSize + 1).getDocs();
+    return this.toPage(docs.slice(0, this.pageSize), docs.length > this.pageSize, false);
+  }
+
+  protected async fetchFromToken(payload: PageTokenPayload): Promise<ClientPage<TData>> {
+    const values = payload.v.map(value => deserializeValue(value, this.firestore));
+    if (payload.d === 'a') {
+      const docs = await this.builder.startAfter(values[0], ...values.slice(1)).limit(this.pageSize + 1).getDocs();
+      // A document precedes this page: the one the cursor was taken from
+      return this.toPage(docs.slice(0, this.pageSize), docs.length > this.pageSize, true);
+    }
+    const docs = await this.builder.endBefore(values[0], ...values.slice(1)).limitToLast(this.pageSize + 1).getDocs();
+    return this.toPage(docs.slice(-this.pageSize), true, docs.length > this.pageSize);
+  }
+
+  protected toPage(items: QueryDocumentEnvelope<TData>[], hasNext: boolean, hasPrevious: boolean): ClientPage<TData> {
+    return {
+      items,
+      hasNext: hasNext && items.length > 0,
+      hasPrevious: hasPrevious && items.length > 0,
+      nextPageToken: hasNext && items.length > 0 ? this.encode('a', items[items.length - 1]) : null,
+      previousPageToken: hasPrevious && items.length > 0 ? this.encode('b', items[0]) : null,
+    };
+  }
+
+  protected encode(direction: 'a' | 'b', item: QueryDocumentEnvelope<TData>): string {
+    const values = this.orderByFields.map(fieldPath => {
+      if (fieldPath === DOCUMENT_ID_FIELD) {
+        return this.useDocumentPaths ? item.ref.path : item.id;
+      }
+      return getFieldValue(item.data, fieldPath);
+    });
+    const payload: PageTokenPayload = { d: direction, o: this.orderByFields, v: values.map(serializeValue) };
+    return encodeToken(payload);
+  }
+
+  protected decode(pageToken: string): PageTokenPayload {
+    let payload: PageTokenPayload;
+    try {
+      payload = decodeToken<PageTokenPayload>(pageToken);
+    } catch {
+      throw new Error('Invalid page token.');
+    }
+    if (
+      (payload.d !== 'a' && payload.d !== 'b') ||
+      !Array.isArray(payload.v) ||
+      !Array.isArray(payload.o) ||
+      payload.o.join('\u0000') !== this.orderByFields.join('\u0000')
+    ) {
+      throw new Error('Invalid page token: it was not created for this query ordering.');
+    }
+    return payload;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Pre-flight checks of query constraint definitions against Firestore's query rules,
+ * so invalid queries fail with a descriptive error before reaching the SDK.
+ */
+import { DocumentSnapshot } from 'firebase/firestore';
+
+import type { QueryConstraintDefinition } from './baseQueryBuilder';
+import { DOCUMENT_ID_FIELD } from './firestoreOrdering';
+
+/** Maximum number of disjunctions (DNF terms) Firestore allows in a query. */
+export const MAX_QUERY_DISJUNCTIONS = 30;
+
+type WhereDefinition = Extract<QueryConstraintDefinition, { type: 'where' }>;
+type FilterDefinition = Extract<QueryConstraintDefinition, { type: 'where' | 'or' | 'and' }>;
+
+const INEQUALITY_OPS = new Set(['<', '<=', '>', '>=', '!=', 'not-in']);
+const ARRAY_VALUE_OPS = new Set(['in', 'not-in', 'array-contains-any']);
+
+/** Thrown when a query's constraints break one of Firestore's query rules. */
+export class QueryValidationError extends Error {
+  /** The constraint definition that makes the query invalid. */
+  public readonly constraint: QueryConstraintDefinition;
+
+  constructor(message: string, constraint: QueryConstraintDefinition) {
+    super(`Invalid query: ${message} (at ${describeConstraint(constraint)})`);
+    // Restore the subclass prototype, which Error() drops in ES5 output
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'QueryValidationError';
+    this.constraint = constraint;
+  }
+}
+
+function formatValue(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/** Human-readable form of a constraint definition, e.g. `where('age', '>', 18)`. */
+export function describeConstraint(def: QueryConstraintDefinition): string {
+  switch (def.type) {
+    case 'where':   return `where('${def.fieldPath}', '${def.opStr}', ${formatValue(def.value)})`;
+    case 'or':
+    case 'and':     return `${def.type}(${def.filters.map(describeConstraint).join(', ')})`;
+    case 'orderBy': return `orderBy('${def.fieldPath}', '${def.directionStr}')`;
+    case 'limit':
+    case 'limitToLast': return `${def.type}(${def.limitCount})`;
+    default:        return `${def.type}(...)`;
+  }
+}
+
+/** Every field filter in the definitions, including those nested in or()/and() groups. */
+function collectWhereDefinitions(definitions: ReadonlyArray<QueryConstraintDefinition>): WhereDefinition[] {
+  return definitions.flatMap((def): WhereDefinition[] => {
+    if (def.type === 'where') return [def];
+    if (def.type === 'or' || def.type === 'and') return collectWhereDefinitions(def.filters);
+    return [];
+  });
+}
+
+/** Field paths with inequality filters, in the order they were first added. */
+export function getInequalityFieldPaths(definitions: ReadonlyArray<QueryConstraintDefinition>): string[] {
+  const fieldPaths = collectWhereDefinitions(definitions)
+    .filter(def => INEQUALITY_OPS.has(def.opStr))
+    .map(def => def.fieldPath);
+  return Array.from(new Set(fieldPaths));
+}
+
+/** Number of terms the filter expands to in disjunctive normal form. */
+function countDisjunctions(def: FilterDefinition): number {
+  switch (def.type) {
+    case 'where':
+      return (def.opStr === 'in' || def.opStr === 'array-contains-any') && Array.isArray(def.value)
+        ? Math.max(def.value.length, 1)
+        : 1;
+    case 'or':  return def.filters.reduce((total, filter) => total + countDisjunctions(filter), 0);
+    case 'and': return def.filters.reduce((total, filter) => total * countDisjunctions(filter), 1);
+  }
+}
+
+/**
+ * Checks the definitions against Firestore's query rules and throws a QueryValidationError
+ * naming the first offending constraint.
+ */
+export function validateQueryConstraints(definitions: ReadonlyArray<QueryConstraintDefinition>): void {
+  const whereDefinitions = collectWhereDefinitions(definitions);
+
+  for (const def of whereDefinitions) {
+    if (ARRAY_VALUE_OPS.has(def.opStr) && (!Array.isArray(def.value) || def.value.length === 0)) {
+      throw new QueryValidationError(`'${def.opStr}' filters require a non-empty array`, def);
+    }
+  }
+
+  const notIns = whereDefinitions.filter(def => def.opStr === 'not-in');
+  if (notIns.length > 1) {
+    throw new QueryValidationError(`only one 'not-in' filter is allowed per query`, notIns[1]);
+  }
+  const notEqual = whereDefinitions.find(def => def.opStr === '!=');
+  if (notIns.length > 0 && notEqual) {
+    throw new QueryValidationError(`'not-in' cannot be combined with '!=' filters`, notEqual);
+  }
+
+  const filters = definitions.filter((def): def is FilterDefinition =>
+    def.type === 'where' || def.type === 'or' || def.type === 'and');
+  const disjunctions = countDisjunctions({ type: 'and', filters });
+  if (disjunctions > MAX_QUERY_DISJUNCTIONS) {
+    const largest = filters.reduce((max, def) => (countDisjunctions(def) > countDisjunctions(max) ? def : max));
+    throw new QueryValidationError(
+      `the query expands to ${disjunctions} disjunctions, more than the maximum of ${MAX_QUERY_DISJUNCTIONS}`,
+      largest
+    );
+  }
+
+  const orderBys = definitions.filter((def): def is Extract<QueryConstraintDefinition, { type: 'orderBy' }> => def.type === 'orderBy');
+  const inequalityFields = getInequalityFieldPaths(definitions);
+  if (inequalityFields.length > 0 && orderBys.length > 0 && orderBys[0].fieldPath !== inequalityFields[0]) {
+    throw new QueryValidationError(
+      `the first orderBy must be on the inequality field '${inequalityFields[0]}'`,
+      orderBys[0]
+    );
+  }
+
+  const limitToLast = definitions.find(def => def.type === 'limitToLast');
+  if (limitToLast && orderBys.length === 0) {
+    throw new QueryValidationError('limitToLast requires at least one orderBy clause', limitToLast);
+  }
+
+  // Firestore always orders by document ID last, so cursors may have one more value
+  const hasExplicitIdOrder = orderBys.some(def => def.fieldPath === DOCUMENT_ID_FIELD);
+  const maxCursorValues = orderBys.length + (hasExplicitIdOrder ? 0 : 1);
+  for (const def of definitions) {
+    if (def.type !== 'startAt' && def.type !== 'startAfter' && def.type !== 'endAt' && def.type !== 'endBefore') {
+      continue;
+    }
+    if (def.snapshotOrFieldValue instanceof DocumentSnapshot) {
+      continue;
+    }
+    const valueCount = 1 + def.fieldValues.length;
+    if (valueCount > maxCursorValues) {
+      throw new QueryValidationError(
+        `${def.type} has ${valueCount} values but the query only orders by ${maxCursorValues} field(s)`,
+        def
+      );
+    }
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Multi-document reads: a concurrency-limited parallel map, and opt-in DataLoader-style batching
+ * that merges individual `get(id)` calls issued in the same tick into one `getMany()` per collection.
+ */
+import type { Firestore, DocumentData } from 'firebase/firestore';
+
+import type { ClientBaseCollectionRef } from './baseCollection';
+
+/** Default number of document reads getMany() keeps in flight at once. */
+export const DEFAULT_READ_CONCURRENCY = 10;
+
+export interface GetManyOptions {
+  /** Maximum number of reads (or queries) in flight at once. Defaults to DEFAULT_READ_CONCURRENCY. */
+  concurrency?: number;
+  /** Fetch with chunked `documentId() in` queries instead of one read per document. */
+  useQueries?: boolean;
+}
+
+/** Maps `items` through `fn` with at most `concurrency` calls pending, preserving order. */
+export async function mapWithConcurrency<T, R>(
+  items: ReadonlyArray<T>,
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency: ${concurrency}`);
+  }
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+interface PendingLoad {
+  resolve: (data: any) => void;
+  reject: (error: unknown) => void;
+}
+
+interface PendingBatch {
+  collection: ClientBaseCollectionRef<any, any>;
+  loads: Map<string, PendingLoad[]>;
+}
+
+/**
+ * Collects `get(id)` calls until the current tick ends, then loads each collection's IDs with a
+ * single getMany() call. A failed batch rejects every load in it.
+ */
+export class ReadBatcher {
+  protected options: GetManyOptions;
+  protected pending = new Map<string, PendingBatch>();
+  protected scheduled = false;
+
+  constructor(options: GetManyOptions = {}) {
+    this.options = options;
+  }
+
+  /** Queues a read of document `id` in `collection`, resolved when the batch is fetched. */
+  load<TData extends DocumentData>(collection: ClientBaseCollectionRef<TData, any>, id: string): Promise<TData | undefined> {
+    return new Promise<TData | undefined>((resolve, reject) => {
+      const path = collection.ref.path;
+      let batch = this.pending.get(path);
+      if (!batch) {
+        batch = { collection, loads: new Map() };
+        this.pending.set(path, batch);
+      }
+      const loads = batch.loads.get(id) ?? [];
+      loads.push({ resolve, reject });
+      batch.loads.set(id, loads);
+
+      if (!this.scheduled) {
+        this.scheduled = true;
+        setTimeout(() => this.dispatch(), 0);
+      }
+    });
+  }
+
+  protected dispatch(): void {
+    const batches = Array.from(this.pending.values());
+    this.pending.clear();
+    this.scheduled = false;
+
+    for (const { collection, loads } of batches) {
+      const ids = Array.from(loads.keys());
+      collection.getMany(ids, this.options).then(
+        results => ids.forEach((id, i) => loads.get(id)!.forEach(load => load.resolve(results[i]))),
+        error => loads.forEach(waiting => waiting.forEach(load => load.reject(error)))
+      );
+    }
+  }
+}
+
+const batchers = new WeakMap<Firestore, ReadBatcher>();
+
+/**
+ * Enables batching of `get(id)` calls on collections of `firestore`. Returns the instance's
+ * batcher (the existing one if already enabled; `options` then only apply to a new batcher).
+ */
+export function enableReadBatching(firestore: Firestore, options?: GetManyOptions): ReadBatcher {
+  let batcher = batchers.get(firestore);
+  if (!batcher) {
+    batcher = new ReadBatcher(options);
+    batchers.set(firestore, batcher);
+  }
+  return batcher;
+}
+
+/** Disables read batching for `firestore`. Reads already queued are still fetched. */
+export function disableReadBatching(firestore: Firestore): void {
+  batchers.delete(firestore);
+}
+
+/** The batcher enabled for `firestore`, if any. */
+export function getReadBatcher(firestore: Firestore): ReadBatcher | undefined {
+  return batchers.get(firestore);
+}
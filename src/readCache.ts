@@ -0,0 +1,216 @@
+/**
+ * Opt-in time-to-live cache for document and query reads, with pluggable storage.
+ * Writes made through collection refs, update builders, typed transactions and batch writers
+ * invalidate the affected collections.
+ */
+import type { Firestore, DocumentReference } from 'firebase/firestore';
+
+/** Default time-to-live of cached reads: one minute. */
+export const DEFAULT_CACHE_TTL_MS = 60_000;
+/** Default capacity of the in-memory LRU storage. */
+export const DEFAULT_CACHE_MAX_ENTRIES = 500;
+
+/** A cached read result. `collectionPath` is absent for collection group queries. */
+export interface ReadCacheEntry {
+  value: unknown;
+  expiresAt: number;
+  collectionId: string;
+  collectionPath?: string;
+}
+
+/**
+ * Storage behind a ReadCache. Methods may be synchronous or return promises, so adapters can wrap
+ * web storage, IndexedDB and the like. Adapters that persist entries must encode Firestore values
+ * themselves (see serializeValue()).
+ */
+export interface ReadCacheStorage {
+  get(key: string): ReadCacheEntry | undefined | Promise<ReadCacheEntry | undefined>;
+  set(key: string, entry: ReadCacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  keys(): Iterable<string> | Promise<Iterable<string>>;
+  clear(): void | Promise<void>;
+}
+
+/** In-memory storage that evicts the least recently used entry once `maxEntries` is reached. */
+export class MemoryLRUStorage implements ReadCacheStorage {
+  protected entries = new Map<string, ReadCacheEntry>();
+  protected maxEntries: number;
+
+  constructor(maxEntries = DEFAULT_CACHE_MAX_ENTRIES) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error(`Invalid cache size: ${maxEntries}`);
+    }
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string): ReadCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      // Re-insert so iteration order tracks recency
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: ReadCacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): Iterable<string> {
+    return Array.from(this.entries.keys());
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export interface ReadCacheOptions {
+  storage?: ReadCacheStorage;
+  /** Time-to-live for collections without an entry in `ttls`. Defaults to DEFAULT_CACHE_TTL_MS. */
+  defaultTtlMs?: number;
+  /** Time-to-live per collection ID; 0 disables caching for that collection. */
+  ttls?: Record<string, number>;
+  /** Clock, for tests. Defaults to Date.now. */
+  now?: () => number;
+}
+
+export interface ReadCacheStats {
+  hits: number;
+  misses: number;
+  invalidations: number;
+}
+
+/** Where a read comes from: a collection path, or a collection group ID. */
+export interface ReadCacheScope {
+  collectionId: string;
+  collectionPath?: string;
+}
+
+export class ReadCache {
+  protected storage: ReadCacheStorage;
+  protected defaultTtlMs: number;
+  protected ttls: Record<string, number>;
+  protected now: () => number;
+  protected counters: ReadCacheStats = { hits: 0, misses: 0, invalidations: 0 };
+  /** Bumped on every invalidation, so reads that started before it are not cached. */
+  protected generation = 0;
+
+  constructor(options: ReadCacheOptions = {}) {
+    this.storage = options.storage ?? new MemoryLRUStorage();
+    this.defaultTtlMs = options.defaultTtlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.ttls = options.ttls ?? {};
+    this.now = options.now ?? Date.now;
+  }
+
+  /** Hit, miss and invalidation counts since creation or the last resetStats(). */
+  get stats(): ReadCacheStats {
+    return { ...this.counters };
+  }
+
+  resetStats(): void {
+    this.counters = { hits: 0, misses: 0, invalidations: 0 };
+  }
+
+  /** Time-to-live for reads from the given collection ID. */
+  getTtl(collectionId: string): number {
+    return this.ttls[collectionId] ?? this.defaultTtlMs;
+  }
+
+  /**
+   * Returns the cached value for `key` if it has not expired, otherwise calls `load` and caches
+   * its result. Cached values are shared between callers and must be treated as read-only.
+   */
+  async getOrLoad<T>(scope: ReadCacheScope, key: string, load: () => Promise<T>): Promise<T> {
+    const ttl = this.getTtl(scope.collectionId);
+    if (ttl <= 0) {
+      return load();
+    }
+    const entry = await this.storage.get(key);
+    if (entry && entry.expiresAt > this.now()) {
+      this.counters.hits++;
+      return entry.value as T;
+    }
+    this.counters.misses++;
+
+    const generation = this.generation;
+    const value = await load();
+    if (generation === this.generation) {
+      await this.storage.set(key, { value, expiresAt: this.now() + ttl, ...scope });
+    }
+    return value;
+  }
+
+  /**
+   * Drops every cached read of the collection at `collectionPath`, including collection group
+   * queries over collections with the same ID.
+   */
+  async invalidateCollection(collectionPath: string): Promise<void> {
+    this.generation++;
+    this.counters.invalidations++;
+    const collectionId = collectionPath.split('/').pop()!;
+    for (const key of Array.from(await this.storage.keys())) {
+      const entry = await this.storage.get(key);
+      const affected = entry && (entry.collectionPath !== undefined
+        ? entry.collectionPath === collectionPath
+        : entry.collectionId === collectionId);
+      if (affected) {
+        await this.storage.delete(key);
+      }
+    }
+  }
+
+  /** Drops every cached read. */
+  async clear(): Promise<void> {
+    this.generation++;
+    this.counters.invalidations++;
+    await this.storage.clear();
+  }
+}
+
+const caches = new WeakMap<Firestore, ReadCache>();
+
+/**
+ * Enables read caching for collections and query builders of `firestore`. Returns the instance's
+ * cache (the existing one if already enabled; `options` then only apply to a new cache).
+ */
+export function enableReadCache(firestore: Firestore, options?: ReadCacheOptions): ReadCache {
+  let cache = caches.get(firestore);
+  if (!cache) {
+    cache = new ReadCache(options);
+    caches.set(firestore, cache);
+  }
+  return cache;
+}
+
+/** Disables read caching for `firestore`. */
+export function disableReadCache(firestore: Firestore): void {
+  caches.delete(firestore);
+}
+
+/** The read cache enabled for `firestore`, if any. */
+export function getReadCache(firestore: Firestore): ReadCache | undefined {
+  return caches.get(firestore);
+}
+
+/** Invalidates the collections holding the written documents `refs`, when read caching is enabled. */
+export async function invalidateWrittenCollections(
+  firestore: Firestore,
+  refs: ReadonlyArray<DocumentReference<any>>
+): Promise<void> {
+  const cache = getReadCache(firestore);
+  if (!cache) {
+    return;
+  }
+  const collectionPaths = Array.from(new Set(refs.map(ref => ref.parent.path)));
+  await Promise.all(collectionPaths.map(path => cache.invalidateCollection(path)));
+}
@@ -0,0 +1,94 @@
+/**
+ * Read source selection: the SDK default, the local cache only, or the server only.
+ */
+import type {
+  DocumentReference,
+  DocumentSnapshot,
+  Query,
+  QuerySnapshot,
+} from 'firebase/firestore';
+
+import {
+  getDoc,
+  getDocFromCache,
+  getDocFromServer,
+  getDocs,
+  getDocsFromCache,
+  getDocsFromServer,
+} from 'firebase/firestore';
+
+/**
+ * Where a read is served from. 'default' lets the SDK decide (server when online, cache when
+ * offline); 'cache' never goes to the network; 'server' never uses cached data.
+ */
+export type ReadSource = 'default' | 'cache' | 'server';
+
+/**
+ * What a 'cache' read does when the data is not cached: 'error' rejects with the SDK's error
+ * (documents only), 'missing' treats the document as not existing, 'server' reads from the server.
+ * Query reads count an empty cached result as a miss only under the 'server' policy.
+ */
+export type CacheMissPolicy = 'error' | 'missing' | 'server';
+
+export interface ReadOptions {
+  /** Defaults to 'default'. */
+  source?: ReadSource;
+  /** Applies to 'cache' reads. Defaults to 'error'. */
+  cacheMiss?: CacheMissPolicy;
+}
+
+/** True if the options select the SDK's default read behaviour. */
+export function isDefaultRead(options?: ReadOptions): boolean {
+  return (options?.source ?? 'default') === 'default';
+}
+
+/** Short description of read options, for request keys. */
+export function describeReadOptions(options?: ReadOptions): string {
+  const source = options?.source ?? 'default';
+  return source === 'cache' ? `cache/${options?.cacheMiss ?? 'error'}` : source;
+}
+
+/**
+ * Reads a document from the selected source. Resolves to undefined when a 'cache' read misses
+ * under the 'missing' policy.
+ */
+export async function getDocFromSource<TData>(
+  docRef: DocumentReference<TData>,
+  options?: ReadOptions
+): Promise<DocumentSnapshot<TData> | undefined> {
+  switch (options?.source ?? 'default') {
+    case 'server': return getDocFromServer(docRef);
+    case 'cache': {
+      try {
+        return await getDocFromCache(docRef);
+      } catch (error) {
+        // The SDK rejects with 'unavailable' when the document is not in the cache
+        if ((error as { code?: string }).code !== 'unavailable') throw error;
+        switch (options?.cacheMiss ?? 'error') {
+          case 'server':  return getDocFromServer(docRef);
+          case 'missing': return undefined;
+          default:        throw error;
+        }
+      }
+    }
+    default: return getDoc(docRef);
+  }
+}
+
+/** Runs a query against the selected source. */
+export async function getDocsFromSource<TData>(
+  q: Query<TData>,
+  options?: ReadOptions
+): Promise<QuerySnapshot<TData>> {
+  switch (options?.source ?? 'default') {
+    case 'server': return getDocsFromServer(q);
+    case 'cache': {
+      const snapshot = await getDocsFromCache(q);
+      if (snapshot.empty && options?.cacheMiss === 'server') {
+        return getDocsFromServer(q);
+      }
+      return snapshot;
+    }
+    default: return getDocs(q);
+  }
+}
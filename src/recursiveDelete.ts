@@ -0,0 +1,45 @@
+/**
+ * Chunked, bottom-up deletion of a document together with its schema-declared sub-collections.
+ */
+import type { Firestore, DocumentReference, DocumentData } from 'firebase/firestore';
+
+import { commitInBatches } from './batchWriter';
+
+export interface RecursiveDeleteProgress {
+  /** Documents deleted so far. */
+  deleted: number;
+  /** Documents to delete in total. */
+  total: number;
+}
+
+export interface RecursiveDeleteOptions {
+  /** List the documents that would be deleted without deleting anything. Defaults to false. */
+  dryRun?: boolean;
+  /** Maximum deletes per committed batch. Defaults to (and cannot exceed) 500. */
+  batchSize?: number;
+  /** Called after each committed batch. */
+  onProgress?: (progress: RecursiveDeleteProgress) => void;
+}
+
+export interface RecursiveDeleteResult {
+  /** Paths of the deleted (or, in a dry run, deletable) documents, descendants before their parents. */
+  paths: string[];
+  /** Number of documents deleted; 0 in a dry run. */
+  deletedCount: number;
+  dryRun: boolean;
+}
+
+/**
+ * Deletes `refs` in order, in batches of at most `batchSize`, reporting progress after each batch.
+ * Batches commit one after another, so a failure leaves every later document in place.
+ */
+export async function deleteInBatches(
+  firestore: Firestore,
+  refs: ReadonlyArray<DocumentReference<DocumentData>>,
+  options: RecursiveDeleteOptions = {}
+): Promise<number> {
+  return commitInBatches(firestore, refs, (batch, ref) => batch.delete(ref), {
+    batchSize: options.batchSize,
+    onProgress: options.onProgress && ((deleted, total) => options.onProgress?.({ deleted, total })),
+  });
+}
\ No newline at end of file
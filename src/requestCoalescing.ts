@@ -0,0 +1,57 @@
+/**
+ * Opt-in sharing of in-flight reads: concurrent identical requests for the same Firestore
+ * instance are served by a single SDK call.
+ */
+import type { Firestore } from 'firebase/firestore';
+
+/** Tracks in-flight requests by key; a key is released as soon as its request settles. */
+export class RequestCoalescer {
+  protected inFlight = new Map<string, Promise<unknown>>();
+
+  /** Number of requests currently in flight. */
+  get size(): number {
+    return this.inFlight.size;
+  }
+
+  /** Runs `request`, or joins the identical request already in flight for `key`. */
+  run<T>(key: string, request: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      return existing as Promise<T>;
+    }
+    const promise = request().finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+}
+
+const coalescers = new WeakMap<Firestore, RequestCoalescer>();
+
+/**
+ * Enables request coalescing for reads made through collections and query builders of
+ * `firestore`. Returns the instance's coalescer (the existing one if already enabled).
+ */
+export function enableRequestCoalescing(firestore: Firestore): RequestCoalescer {
+  let coalescer = coalescers.get(firestore);
+  if (!coalescer) {
+    coalescer = new RequestCoalescer();
+    coalescers.set(firestore, coalescer);
+  }
+  return coalescer;
+}
+
+/** Disables request coalescing for `firestore`. Requests already in flight still complete. */
+export function disableRequestCoalescing(firestore: Firestore): void {
+  coalescers.delete(firestore);
+}
+
+/**
+ * Runs `request` through the Firestore instance's coalescer, or directly if coalescing is off.
+ * `getKey` is only called when coalescing is enabled.
+ */
+export function coalesceRequest<T>(firestore: Firestore, getKey: () => string, request: () => Promise<T>): Promise<T> {
+  const coalescer = coalescers.get(firestore);
+  return coalescer ? coalescer.run(getKey(), request) : request();
+}
@@ -0,0 +1,181 @@
+/**
+ * JSON-safe encoding of Firestore values (Timestamp, GeoPoint, DocumentReference, Bytes),
+ * used for persisted cursors and serialized queries.
+ */
+import type { Firestore, WhereFilterOp, OrderByDirection } from 'firebase/firestore';
+
+import {
+  Timestamp,
+  GeoPoint,
+  DocumentReference,
+  Bytes,
+  doc,
+} from 'firebase/firestore';
+
+import type { QueryConstraintDefinition } from './baseQueryBuilder';
+
+/** Tagged JSON representation of a Firestore value. Plain JSON values are kept as-is. */
+export type SerializedValue =
+  | null
+  | boolean
+  | number
+  | string
+  | SerializedValue[]
+  | { __type: 'timestamp'; seconds: number; nanoseconds: number }
+  | { __type: 'geopoint'; latitude: number; longitude: number }
+  | { __type: 'reference'; path: string }
+  | { __type: 'bytes'; base64: string }
+  | { __type: 'map'; value: { [key: string]: SerializedValue } }
+  | { __type: 'undefined' };
+
+/** Encodes a value into JSON-safe form. Dates are encoded as Timestamps, as Firestore stores them. */
+export function serializeValue(value: unknown): SerializedValue {
+  if (value === undefined) return { __type: 'undefined' };
+  if (value === null || typeof value === 'boolean' || typeof value === 'number' || typeof value === 'string') {
+    return value as SerializedValue;
+  }
+  if (value instanceof Timestamp) {
+    return { __type: 'timestamp', seconds: value.seconds, nanoseconds: value.nanoseconds };
+  }
+  if (value instanceof Date) {
+    return serializeValue(Timestamp.fromDate(value));
+  }
+  if (value instanceof GeoPoint) {
+    return { __type: 'geopoint', latitude: value.latitude, longitude: value.longitude };
+  }
+  if (value instanceof DocumentReference) {
+    return { __type: 'reference', path: value.path };
+  }
+  if (value instanceof Bytes) {
+    return { __type: 'bytes', base64: value.toBase64() };
+  }
+  if (Array.isArray(value)) {
+    return value.map(serializeValue);
+  }
+  if (typeof value === 'object') {
+    const map: { [key: string]: SerializedValue } = {};
+    for (const [key, fieldValue] of Object.entries(value as Record<string, unknown>)) {
+      map[key] = serializeValue(fieldValue);
+    }
+    return { __type: 'map', value: map };
+  }
+  throw new Error(`Cannot serialize value of type '${typeof value}'`);
+}
+
+/** Decodes a value produced by serializeValue(). References are resolved against `firestore`. */
+export function deserializeValue(json: SerializedValue, firestore: Firestore): unknown {
+  if (json === null || typeof json !== 'object') {
+    return json;
+  }
+  if (Array.isArray(json)) {
+    return json.map(item => deserializeValue(item, firestore));
+  }
+  switch (json.__type) {
+    case 'undefined': return undefined;
+    case 'timestamp': return new Timestamp(json.seconds, json.nanoseconds);
+    case 'geopoint':  return new GeoPoint(json.latitude, json.longitude);
+    // Use top-level doc function
+    case 'reference': return doc(firestore, json.path);
+    case 'bytes':     return Bytes.fromBase64String(json.base64);
+    case 'map': {
+      const map: Record<string, unknown> = {};
+      for (const [key, fieldValue] of Object.entries(json.value)) {
+        map[key] = deserializeValue(fieldValue, firestore);
+      }
+      return map;
+    }
+    default: throw new Error(`Unsupported serialized value type: ${(json as any).__type}`);
+  }
+}
+
+/** JSON.stringify with object keys sorted, so equal values always produce the same string. */
+export function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, fieldValue) => {
+    if (fieldValue === null || typeof fieldValue !== 'object' || Array.isArray(fieldValue)) {
+      return fieldValue;
+    }
+    return Object.fromEntries(Object.keys(fieldValue).sort().map(key => [key, fieldValue[key]]));
+  });
+}
+
+/** Encodes a JSON-compatible value as an opaque, URL-safe string. */
+export function encodeToken(payload: unknown): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(payload));
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Decodes a string produced by encodeToken(). */
+export function decodeToken<T = unknown>(token: string): T {
+  const base64 = token.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return JSON.parse(new TextDecoder().decode(bytes)) as T;
+}
+
+/** JSON form of a single query constraint definition. Cursors are always stored as field values. */
+export type SerializedConstraint =
+  | { type: 'where'; fieldPath: string; opStr: WhereFilterOp; value: SerializedValue }
+  | { type: 'or' | 'and'; filters: SerializedConstraint[] }
+  | { type: 'orderBy'; fieldPath: string; directionStr: OrderByDirection }
+  | { type: 'limit' | 'limitToLast'; limitCount: number }
+  | { type: 'startAt' | 'startAfter' | 'endAt' | 'endBefore'; values: SerializedValue[] };
+
+/** JSON form of a query builder, produced by `toJSON()`. */
+export interface SerializedQuery {
+  version: 1;
+  /** Path of the queried collection, for logging; absent for collection group queries. */
+  path?: string;
+  constraints: SerializedConstraint[];
+}
+
+/**
+ * Encodes a constraint definition. Snapshot cursors must already be converted to field values;
+ * the builder's toJSON() takes care of that.
+ */
+export function serializeConstraint(def: QueryConstraintDefinition): SerializedConstraint {
+  switch (def.type) {
+    case 'where':   return { type: 'where', fieldPath: def.fieldPath, opStr: def.opStr, value: serializeValue(def.value) };
+    case 'or':
+    case 'and':     return { type: def.type, filters: def.filters.map(serializeConstraint) };
+    case 'orderBy': return { type: 'orderBy', fieldPath: def.fieldPath, directionStr: def.directionStr };
+    case 'limit':
+    case 'limitToLast': return { type: def.type, limitCount: def.limitCount };
+    case 'startAt':
+    case 'startAfter':
+    case 'endAt':
+    case 'endBefore':
+      return { type: def.type, values: [def.snapshotOrFieldValue, ...def.fieldValues].map(serializeValue) };
+    default: throw new Error(`Unsupported client constraint type: ${(def as any).type}`);
+  }
+}
+
+/** Decodes a constraint produced by serializeConstraint(). */
+export function deserializeConstraint(json: SerializedConstraint, firestore: Firestore): QueryConstraintDefinition {
+  switch (json.type) {
+    case 'where':   return { type: 'where', fieldPath: json.fieldPath, opStr: json.opStr, value: deserializeValue(json.value, firestore) };
+    case 'or':
+    case 'and': {
+      const filters = json.filters.map(filter => deserializeConstraint(filter, firestore));
+      if (!filters.every(filter => filter.type === 'where' || filter.type === 'or' || filter.type === 'and')) {
+        throw new Error(`Composite '${json.type}' filters may only contain filters.`);
+      }
+      return { type: json.type, filters: filters as Extract<QueryConstraintDefinition, { type: 'or' }>['filters'] };
+    }
+    case 'orderBy': return { type: 'orderBy', fieldPath: json.fieldPath, directionStr: json.directionStr };
+    case 'limit':
+    case 'limitToLast': return { type: json.type, limitCount: json.limitCount };
+    case 'startAt':
+    case 'startAfter':
+    case 'endAt':
+    case 'endBefore': {
+      if (json.values.length === 0) {
+        throw new Error(`Serialized '${json.type}' cursor has no values.`);
+      }
+      const [first, ...rest] = json.values.map(value => deserializeValue(value, firestore));
+      return { type: json.type, snapshotOrFieldValue: first, fieldValues: rest };
+    }
+    default: throw new Error(`Unsupported serialized constraint type: ${(json as any).type}`);
+  }
+}
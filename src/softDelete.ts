@@ -0,0 +1,29 @@
+/**
+ * Schema-driven soft deletes: delete() sets a marker field instead of removing the document, and
+ * reads and queries treat marked documents as missing.
+ */
+import type { DocumentData } from 'firebase/firestore';
+
+/**
+ * Documents that lack the marker field never match the query builders' `== null` filter, so
+ * queries hide them. Before enabling soft deletes on a collection that already has documents,
+ * backfill the field with null on every one of them.
+ */
+export interface SoftDeleteConfig {
+  /**
+   * Top-level field holding the deletion time. Defaults to `deletedAt`. Live documents store null
+   * in it, which the runtime writes on creation so queries can filter on `== null`.
+   */
+  field?: string;
+}
+
+/** The field a soft-delete configuration stores its marker in. */
+export function getSoftDeleteField(config: SoftDeleteConfig): string {
+  return config.field ?? 'deletedAt';
+}
+
+/** True if `data` carries a soft-delete marker (any value other than null or a missing field). */
+export function isSoftDeleted(data: DocumentData | undefined, config: SoftDeleteConfig): boolean {
+  const marker = data?.[getSoftDeleteField(config)];
+  return marker !== undefined && marker !== null;
+}
\ No newline at end of file
@@ -0,0 +1,63 @@
+/**
+ * Schema-managed `createdAt` / `updatedAt` fields, written with server timestamps on every write.
+ */
+import type { DocumentData, SetOptions } from 'firebase/firestore';
+
+import { serverTimestamp } from 'firebase/firestore';
+
+export interface TimestampsConfig {
+  /**
+   * Top-level field set to the server time when a document is created: by add(), create(), or a
+   * set() or upsert that finds no existing document. Sets that overwrite a document keep it.
+   */
+  createdAt?: string;
+  /** Top-level field set to the server time on every write, including merges and update commits. */
+  updatedAt?: string;
+  /**
+   * Keep values the caller provides for these fields instead of replacing them. Defaults to false:
+   * caller values are replaced, and createdAt is never changed by merges or updates.
+   */
+  allowOverride?: boolean;
+}
+
+/**
+ * What a write does to the document: 'create' writes all of it (add, create, set without merge),
+ * 'merge' and 'update' change some fields of it.
+ */
+export type TimestampedWriteKind = 'create' | 'merge' | 'update';
+
+/** Returns a copy of `data` with the managed timestamp fields set (or removed) for the write kind. */
+export function applyManagedTimestamps(data: DocumentData, config: TimestampsConfig, kind: TimestampedWriteKind): DocumentData {
+  const result = { ...data };
+  const keepCallerValue = (field: string) => config.allowOverride === true && result[field] !== undefined;
+
+  if (config.createdAt && !keepCallerValue(config.createdAt)) {
+    if (kind === 'create') {
+      result[config.createdAt] = serverTimestamp();
+    } else {
+      delete result[config.createdAt];
+    }
+  }
+  if (config.updatedAt && !keepCallerValue(config.updatedAt)) {
+    result[config.updatedAt] = serverTimestamp();
+  }
+  return result;
+}
+
+/**
+ * Adjusts `mergeFields` set options to the managed fields: updatedAt is always written, and
+ * createdAt only when callers may override it.
+ */
+export function applyManagedTimestampOptions(options: SetOptions | undefined, config: TimestampsConfig): SetOptions | undefined {
+  if (!options || !('mergeFields' in options) || !options.mergeFields) {
+    return options;
+  }
+  let mergeFields = [...options.mergeFields];
+  if (config.createdAt && !config.allowOverride) {
+    mergeFields = mergeFields.filter(field => field !== config.createdAt);
+  }
+  if (config.updatedAt && !mergeFields.includes(config.updatedAt)) {
+    mergeFields.push(config.updatedAt);
+  }
+  return { ...options, mergeFields };
+}
@@ -0,0 +1,135 @@
+/**
+ * Typed transaction support for generated collections, using Firebase JS Client SDK v9+.
+ */
+import type {
+  Firestore,
+  Transaction,
+  DocumentReference,
+  TransactionOptions,
+  DocumentData,
+  SetOptions,
+} from 'firebase/firestore';
+
+// Import client functions
+import { runTransaction } from 'firebase/firestore';
+
+import { invalidateWrittenCollections } from './readCache';
+import type { ClientBaseCollectionRef } from './baseCollection';
+import type { ClientBaseUpdateBuilder } from './baseUpdateBuilder';
+
+/**
+ * Wraps an SDK Transaction so reads and writes go through typed collection refs.
+ * Writes apply schema defaults and validation exactly like the collection's own set(), and get()
+ * and delete() follow the collection's soft deletes. Await set(), update() and delete(): they may
+ * read the document (to check an optimistic lock or a soft-delete marker), and like every
+ * transaction read that must happen before the transaction's writes.
+ */
+export class ClientTypedTransaction {
+  /** The underlying SDK transaction, for operations not covered here. */
+  public readonly transaction: Transaction;
+  protected written: DocumentReference<any>[] = [];
+
+  constructor(transaction: Transaction) {
+    this.transaction = transaction;
+  }
+
+  /** Documents written so far, whose collections' cached reads are stale once the transaction commits. */
+  get writtenRefs(): ReadonlyArray<DocumentReference<any>> {
+    return this.written;
+  }
+
+  /**
+   * Reads a single document within the transaction. Soft-deleted documents read as undefined
+   * unless `collectionRef` is a withDeleted() view.
+   */
+  async get<TData extends DocumentData, TAddData extends DocumentData>(
+    collectionRef: ClientBaseCollectionRef<TData, TAddData>,
+    id: string
+  ): Promise<TData | undefined> {
+    return collectionRef.getInTransaction(this.transaction, id);
+  }
+
+  /** Sets a document within the transaction, overwriting it unless merge options are provided. */
+  set<TData extends DocumentData, TAddData extends DocumentData>(
+    collectionRef: ClientBaseCollectionRef<TData, TAddData>,
+    id: string,
+    data: TAddData,
+    options?: SetOptions & { merge?: false | undefined }
+  ): Promise<this>;
+  set<TData extends DocumentData, TAddData extends DocumentData>(
+    collectionRef: ClientBaseCollectionRef<TData, TAddData>,
+    id: string,
+    data: Partial<TAddData>,
+    options: SetOptions & ({ merge: true } | { mergeFields: ReadonlyArray<string> })
+  ): Promise<this>;
+  async set<TData extends DocumentData, TAddData extends DocumentData>(
+    collectionRef: ClientBaseCollectionRef<TData, TAddData>,
+    id: string,
+    data: TAddData | Partial<TAddData>,
+    options?: SetOptions
+  ): Promise<this> {
+    await collectionRef.setInTransaction(this.transaction, id, data, options);
+    this.written.push(collectionRef.doc(id));
+    return this;
+  }
+
+  /**
+   * Applies the field updates accumulated by an update builder within the transaction, checking
+   * and bumping the lock field when the builder's collection uses optimistic locking.
+   */
+  async update<TData extends DocumentData>(updateBuilder: ClientBaseUpdateBuilder<TData>): Promise<this> {
+    if (Object.keys(updateBuilder.updateData).length === 0) {
+      console.warn('Transaction update called with no changes specified.');
+      return this;
+    }
+    await updateBuilder.applyInTransaction(this.transaction);
+    this.written.push(updateBuilder.docRef);
+    return this;
+  }
+
+  /**
+   * Deletes a document within the transaction, or sets its marker when the collection uses soft
+   * deletes (a no-op if the document does not exist).
+   */
+  async delete<TData extends DocumentData, TAddData extends DocumentData>(
+    collectionRef: ClientBaseCollectionRef<TData, TAddData>,
+    id: string
+  ): Promise<this> {
+    await collectionRef.deleteInTransaction(this.transaction, id);
+    this.written.push(collectionRef.doc(id));
+    return this;
+  }
+
+  /** Permanently deletes a document within the transaction, even when the schema enables soft deletes. */
+  purge<TData extends DocumentData, TAddData extends DocumentData>(
+    collectionRef: ClientBaseCollectionRef<TData, TAddData>,
+    id: string
+  ): this {
+    const docRef = collectionRef.doc(id);
+    this.transaction.delete(docRef);
+    this.written.push(docRef);
+    return this;
+  }
+}
+
+/**
+ * Runs `updateFunction` in a Firestore transaction, passing a typed transaction context.
+ * Retries and atomicity follow the SDK's runTransaction semantics. Once the transaction commits,
+ * cached reads of the collections it wrote to are invalidated.
+ */
+export async function runTypedTransaction<T>(
+  firestore: Firestore,
+  updateFunction: (tx: ClientTypedTransaction) => Promise<T>,
+  options?: TransactionOptions
+): Promise<T> {
+  // Each retry gets a fresh context; only the last, committed attempt's writes count
+  let typedTransaction: ClientTypedTransaction | undefined;
+  // Use top-level runTransaction function
+  const result = await runTransaction(
+    firestore,
+    transaction => updateFunction(typedTransaction = new ClientTypedTransaction(transaction)),
+    options
+  );
+  await invalidateWrittenCollections(firestore, typedTransaction?.writtenRefs ?? []);
+  return result;
+}
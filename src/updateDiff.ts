@@ -0,0 +1,96 @@
+/**
+ * Computes the minimal set of field updates that turns one version of a document into another.
+ */
+import type { DocumentData } from 'firebase/firestore';
+
+import { FieldValue } from 'firebase/firestore';
+
+import { valuesEqual } from './firestoreOrdering';
+
+export interface UpdateDiffOptions {
+  /**
+   * Emit arrayUnion/arrayRemove for arrays whose only change is appended new elements or removed
+   * elements, instead of rewriting the whole array. Defaults to false.
+   */
+  arrayOps?: boolean;
+}
+
+/** One field update, keyed by dot-notation field path. */
+export type UpdateDiffOperation =
+  | { type: 'set'; fieldPath: string; value: unknown }
+  | { type: 'delete'; fieldPath: string }
+  | { type: 'arrayUnion' | 'arrayRemove'; fieldPath: string; values: unknown[] };
+
+/** Only plain maps are diffed field by field; other objects (Timestamps, references...) are leaves. */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function hasDuplicates(values: unknown[]): boolean {
+  return values.some((value, i) => values.findIndex(other => valuesEqual(other, value)) !== i);
+}
+
+/** The arrayUnion/arrayRemove operation equivalent to replacing `before` with `after`, if any. */
+function diffArray(fieldPath: string, before: unknown[], after: unknown[]): UpdateDiffOperation | undefined {
+  // arrayUnion/arrayRemove treat arrays as sets, so only duplicate-free arrays are safe
+  if (hasDuplicates(before) || hasDuplicates(after)) return undefined;
+  const contains = (values: unknown[], value: unknown) => values.some(other => valuesEqual(other, value));
+
+  const added = after.filter(value => !contains(before, value));
+  const removed = before.filter(value => !contains(after, value));
+  if (added.length > 0 && removed.length === 0 && valuesEqual(after.slice(0, before.length), before)) {
+    return { type: 'arrayUnion', fieldPath, values: added };
+  }
+  if (removed.length > 0 && added.length === 0 && valuesEqual(before.filter(value => contains(after, value)), after)) {
+    return { type: 'arrayRemove', fieldPath, values: removed };
+  }
+  return undefined;
+}
+
+function diffInto(
+  operations: UpdateDiffOperation[],
+  prefix: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  options: UpdateDiffOptions
+): void {
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  for (const key of keys) {
+    if (key.includes('.')) {
+      throw new Error(`Cannot diff field '${prefix}${key}': field names containing '.' cannot be used in dot-notation updates.`);
+    }
+    const fieldPath = `${prefix}${key}`;
+    const oldValue = before[key];
+    const newValue = after[key];
+
+    if (newValue === undefined) {
+      if (oldValue !== undefined) operations.push({ type: 'delete', fieldPath });
+    } else if (newValue instanceof FieldValue) {
+      // Sentinels describe a change by themselves
+      operations.push({ type: 'set', fieldPath, value: newValue });
+    } else if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+      diffInto(operations, `${fieldPath}.`, oldValue, newValue, options);
+    } else if (oldValue === undefined || !valuesEqual(oldValue, newValue)) {
+      const arrayOperation = options.arrayOps && Array.isArray(oldValue) && Array.isArray(newValue)
+        ? diffArray(fieldPath, oldValue, newValue)
+        : undefined;
+      operations.push(arrayOperation ?? { type: 'set', fieldPath, value: newValue });
+    }
+  }
+}
+
+/**
+ * Returns the field updates that turn `original` into `modified`: changed leaf values are set by
+ * dot-notation path, removed fields are deleted, and nested maps are compared field by field.
+ */
+export function diffDocuments<TData extends DocumentData>(
+  original: Partial<TData>,
+  modified: Partial<TData>,
+  options: UpdateDiffOptions = {}
+): UpdateDiffOperation[] {
+  const operations: UpdateDiffOperation[] = [];
+  diffInto(operations, '', original, modified, options);
+  return operations;
+}
@@ -0,0 +1,146 @@
+/**
+ * Client-side schema validation for data written through the runtime.
+ */
+import {
+  FieldValue,
+  Timestamp,
+  GeoPoint,
+  DocumentReference,
+} from 'firebase/firestore';
+
+import type { CollectionSchema, FieldSchema } from './baseCollection';
+
+/** A single failed check, identified by its field path (e.g. `address.city` or `tags[2]`). */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/** Thrown by writes whose data does not satisfy the collection schema. */
+export class ValidationError extends Error {
+  public readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], collectionPath?: string) {
+    const target = collectionPath ? ` for collection '${collectionPath}'` : '';
+    const details = issues.map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    super(`Validation failed${target}: ${details}`);
+    // ES5 output calls Error() without `this`; restore the prototype so instanceof and getters work
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+
+  /** The field paths that failed validation. */
+  get paths(): string[] {
+    return this.issues.map(issue => issue.path);
+  }
+}
+
+export interface ValidateOptions {
+  /** When true (merge writes), missing required fields are not reported. */
+  partial?: boolean;
+}
+
+/**
+ * Validates `data` against the field definitions of `schema`.
+ * Returns every issue found; an empty array means the data is valid.
+ */
+export function validateData(
+  data: Record<string, any>,
+  schema: CollectionSchema,
+  options: ValidateOptions = {}
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateFields(data, schema.fields, '', options.partial === true, issues);
+  return issues;
+}
+
+function validateFields(
+  data: Record<string, any>,
+  fields: Record<string, FieldSchema>,
+  prefix: string,
+  partial: boolean,
+  issues: ValidationIssue[]
+): void {
+  for (const fieldName in fields) {
+    const path = prefix ? `${prefix}.${fieldName}` : fieldName;
+    validateValue(data[fieldName], fields[fieldName], path, partial, issues);
+  }
+}
+
+function validateValue(
+  value: any,
+  fieldDef: FieldSchema,
+  path: string,
+  partial: boolean,
+  issues: ValidationIssue[]
+): void {
+  if (value === undefined || value === null) {
+    if (fieldDef.required && !partial) {
+      issues.push({ path, message: 'is required' });
+    }
+    return;
+  }
+  // Sentinels (serverTimestamp, increment, ...) are resolved by the server
+  if (value instanceof FieldValue) {
+    return;
+  }
+
+  if (fieldDef.type && !matchesType(value, fieldDef.type)) {
+    issues.push({ path, message: `expected ${fieldDef.type}` });
+    return;
+  }
+
+  if (fieldDef.enum && !fieldDef.enum.includes(value)) {
+    issues.push({ path, message: `must be one of ${fieldDef.enum.map(v => JSON.stringify(v)).join(', ')}` });
+  }
+
+  // min/max bound numbers by value, strings and arrays by length
+  const measured = typeof value === 'number' ? value
+    : (typeof value === 'string' || Array.isArray(value)) ? value.length
+    : undefined;
+  const unit = typeof value === 'number' ? '' : ' in length';
+  if (measured !== undefined) {
+    if (fieldDef.min !== undefined && measured < fieldDef.min) {
+      issues.push({ path, message: `must be at least ${fieldDef.min}${unit}` });
+    }
+    if (fieldDef.max !== undefined && measured > fieldDef.max) {
+      issues.push({ path, message: `must be at most ${fieldDef.max}${unit}` });
+    }
+  }
+
+  if (fieldDef.pattern !== undefined && typeof value === 'string') {
+    const pattern = typeof fieldDef.pattern === 'string' ? new RegExp(fieldDef.pattern) : fieldDef.pattern;
+    if (!pattern.test(value)) {
+      issues.push({ path, message: `must match pattern ${pattern}` });
+    }
+  }
+
+  if (fieldDef.items && Array.isArray(value)) {
+    value.forEach((item, index) => validateValue(item, fieldDef.items!, `${path}[${index}]`, false, issues));
+  }
+
+  if (fieldDef.properties && isPlainObject(value)) {
+    validateFields(value, fieldDef.properties, path, partial, issues);
+  }
+}
+
+function matchesType(value: any, type: NonNullable<FieldSchema['type']>): boolean {
+  switch (type) {
+    case 'string':    return typeof value === 'string';
+    case 'number':    return typeof value === 'number' && !Number.isNaN(value);
+    case 'boolean':   return typeof value === 'boolean';
+    case 'timestamp': return value instanceof Timestamp || value instanceof Date;
+    case 'geopoint':  return value instanceof GeoPoint;
+    case 'reference': return value instanceof DocumentReference;
+    case 'array':     return Array.isArray(value);
+    case 'map':       return isPlainObject(value);
+    default: return true;
+  }
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
@@ -52,10 +52,10 @@ class TestSubSubCollection extends ClientBaseCollectionRef<SubSubTestData, SubSu
   }
   // Basic query/update builders for testing
   query(): ClientBaseQueryBuilder<SubSubTestData> {
-    return new ClientBaseQueryBuilder<SubSubTestData>(this.firestore, this.ref);
+    return this.createQueryBuilder();
   }
   update(id: string): ClientBaseUpdateBuilder<SubSubTestData> {
-    return new ClientBaseUpdateBuilder<SubSubTestData>(this.doc(id));
+    return this.createUpdateBuilder(id);
   }
 }
 
@@ -75,13 +75,12 @@ class TestSubCollection extends ClientBaseCollectionRef<SubTestData, SubTestAddD
 
   // Method to create a query builder instance for the subcollection
   query(): ClientBaseQueryBuilder<SubTestData> {
-    return new ClientBaseQueryBuilder<SubTestData>(this.firestore, this.ref);
+    return this.createQueryBuilder();
   }
 
   // Method to create an update builder instance for the subcollection
   update(id: string): ClientBaseUpdateBuilder<SubTestData> {
-    const docRef = this.doc(id); // Use base class doc() method
-    return new ClientBaseUpdateBuilder<SubTestData>(docRef);
+    return this.createUpdateBuilder(id); // Configured from the schema by the base class
   }
 
   // Method to access the sub-subcollection (Level 3)
@@ -101,13 +100,12 @@ class TestCollection extends ClientBaseCollectionRef<TestData, TestAddData> {
 
   // Method to create a query builder instance
   query(): ClientBaseQueryBuilder<TestData> {
-    return new ClientBaseQueryBuilder<TestData>(this.firestore, this.ref);
+    return this.createQueryBuilder();
   }
 
   // Method to create an update builder instance
   update(id: string): ClientBaseUpdateBuilder<TestData> {
-    const docRef = this.doc(id); // Use base class doc() method
-    return new ClientBaseUpdateBuilder<TestData>(docRef);
+    return this.createUpdateBuilder(id); // Configured from the schema by the base class
   }
 
   // Method to access the subcollection using the public base method
@@ -392,7 +390,7 @@ describe('Client Runtime Integration Tests', () => {
     class NestedTestCollection extends ClientBaseCollectionRef<NestedTestData, any> {
         constructor(db: Firestore) { super(db, 'nested-test'); }
         update(id: string): ClientBaseUpdateBuilder<NestedTestData> {
-            return new ClientBaseUpdateBuilder<NestedTestData>(this.doc(id));
+            return this.createUpdateBuilder(id);
         }
     }
     const nestedCollection = new NestedTestCollection(firestore);